@@ -1,10 +1,19 @@
-import { FluidObserver, FluidEvent, Globals as G } from '@react-spring/shared'
+import {
+  FluidObserver,
+  FluidEvent,
+  FrameLoop,
+  Globals as G,
+} from '@react-spring/shared'
 
 import { AnimatedObject } from './AnimatedObject'
 import { TreeContext } from './context'
 
 type Props = object & { style?: any }
 
+/** Parents like `FrameValue` know which frameloop they advance on. */
+const hasFrameLoop = (parent: object): parent is { frameLoop: FrameLoop } =>
+  'frameLoop' in parent
+
 export class AnimatedProps extends AnimatedObject implements FluidObserver {
   /** Equals true when an update is scheduled for "end of frame" */
   dirty = false
@@ -27,10 +36,15 @@ export class AnimatedProps extends AnimatedObject implements FluidObserver {
   }
 
   /** @internal */
-  onParentChange({ type }: FluidEvent) {
+  onParentChange({ type, parent }: FluidEvent) {
     if (!this.dirty && type === 'change') {
       this.dirty = true
-      G.frameLoop.onFrame(() => {
+      // Update at the end of the next frame of the parent's frameloop,
+      // or of the frame being processed.
+      const frameLoop = hasFrameLoop(parent)
+        ? parent.frameLoop
+        : FrameLoop.current || G.frameLoop
+      frameLoop.onFrame(() => {
         this.dirty = false
         this.update()
       })
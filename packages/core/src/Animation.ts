@@ -14,11 +14,20 @@ export class Animation<T = any> {
   values: readonly AnimatedValue[] = emptyArray
   toValues: readonly number[] | null = null
   fromValues: readonly number[] = emptyArray
+  fromVelocities: readonly (number | null | undefined)[] = emptyArray
 
   to!: T | FluidValue<T>
   from!: T | FluidValue<T>
   config = new AnimationConfig()
   immediate = false
+  /** When true, this animation was started by a `reverse` call. */
+  reversed = false
+  /** The config to restore once a reversed animation is retargeted. */
+  baseConfig?: AnimationConfig
+  /** The simulated length of this animation, which is reset by any update. */
+  duration?: number
+  /** The config and goal that `duration` was simulated with. */
+  durationKey?: [AnimationConfig, any]
   onStart?: OnStart<T>
   onChange?: OnChange<T>
   onPause?: OnPause<T>
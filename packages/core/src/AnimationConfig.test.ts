@@ -1,4 +1,6 @@
+import { easings } from '@react-spring/shared'
 import { AnimationConfig, mergeConfig } from './AnimationConfig'
+import { solveSpring } from './solveSpring'
 
 const expo = (t: number) => Math.pow(t, 2)
 
@@ -29,6 +31,19 @@ describe('mergeConfig', () => {
     })
   })
 
+  it('converts a named easing into its function', () => {
+    const config = new AnimationConfig()
+    mergeConfig(config, { duration: 1000, easing: 'easeOutBack' })
+    expect(config.easing).toBe(easings.easeOutBack)
+
+    mergeConfig(config, { easing: expo })
+    expect(config.easing).toBe(expo)
+
+    // Named easings work as default props.
+    mergeConfig(config, {}, { easing: 'easeInQuad' })
+    expect(config.easing).toBe(easings.easeInQuad)
+  })
+
   it('resets the "duration" when props are incompatible', () => {
     const config = new AnimationConfig()
 
@@ -69,6 +84,105 @@ describe('mergeConfig', () => {
     expect(config.tension).toBe(0)
   })
 
+  it('resets the "visualDuration" when props are incompatible', () => {
+    const config = new AnimationConfig()
+
+    mergeConfig(config, { visualDuration: 500 })
+    expect(config.visualDuration).toBeDefined()
+
+    mergeConfig(config, { tension: 100 })
+    expect(config.visualDuration).toBeUndefined()
+    expect(config.tension).toBe(100)
+
+    mergeConfig(config, { visualDuration: 500 })
+    mergeConfig(config, { frequency: 0.5 })
+    expect(config.visualDuration).toBeUndefined()
+    expect(config.frequency).toBe(0.5)
+
+    mergeConfig(config, { duration: 1000 })
+    mergeConfig(config, { visualDuration: 500 })
+    expect(config.duration).toBeUndefined()
+  })
+
+  it('resets the "solver" when props are incompatible', () => {
+    const config = new AnimationConfig()
+    const solver = jest.fn()
+
+    mergeConfig(config, { duration: 1000 })
+    mergeConfig(config, { solver })
+    expect(config.duration).toBeUndefined()
+    expect(config.solver).toBe(solver)
+
+    // Spring props can be used by a solver.
+    mergeConfig(config, { tension: 100 })
+    expect(config.solver).toBe(solver)
+
+    mergeConfig(config, { decay: true })
+    expect(config.solver).toBeUndefined()
+
+    mergeConfig(config, { solver })
+    expect(config.decay).toBeUndefined()
+    mergeConfig(config, { duration: 1000 })
+    expect(config.solver).toBeUndefined()
+  })
+
+  describe('visualDuration/bounce props', () => {
+    // The largest distance from the goal at or after the given time
+    const getMaxDistance = (config: AnimationConfig, t: number) => {
+      let max = 0
+      for (; t < 5000; t += 4) {
+        const [x] = solveSpring(config, -1, 0, t)
+        max = Math.max(max, Math.abs(x))
+      }
+      return max
+    }
+
+    it.each([0, 0.25, 0.5, 0.9])(
+      'comes to rest in about the visual duration (bounce: %p)',
+      bounce => {
+        const config = new AnimationConfig()
+        mergeConfig(config, { visualDuration: 400, bounce })
+        expect(getMaxDistance(config, 400)).toBeLessThan(0.01)
+        expect(getMaxDistance(config, 200)).toBeGreaterThan(0.01)
+      }
+    )
+
+    it('comes to rest in about the visual duration (dampingRatio: 2)', () => {
+      const config = new AnimationConfig()
+      mergeConfig(config, { visualDuration: 400, dampingRatio: 2, mass: 3 })
+      expect(getMaxDistance(config, 400)).toBeLessThan(0.01)
+      expect(getMaxDistance(config, 200)).toBeGreaterThan(0.01)
+    })
+
+    it('treats "bounce" as the inverse of "dampingRatio"', () => {
+      const config = new AnimationConfig()
+      const expected = {
+        ...mergeConfig(config, { visualDuration: 400, dampingRatio: 0.7 }),
+      }
+      mergeConfig(config, { visualDuration: 400, bounce: 0.3 })
+      expect(config.tension).toBeCloseTo(expected.tension, 9)
+      expect(config.friction).toBeCloseTo(expected.friction, 9)
+    })
+
+    it('prefers the latest of "bounce" and "dampingRatio"', () => {
+      const config = new AnimationConfig()
+      mergeConfig(config, { visualDuration: 400, bounce: 0.5 })
+      mergeConfig(config, { dampingRatio: 1 })
+      expect(config.friction).toBeCloseTo(2 * Math.sqrt(config.tension), 9)
+
+      mergeConfig(config, { bounce: 0.5 })
+      expect(config.dampingRatio).toBeUndefined()
+      expect(config.friction).toBeCloseTo(Math.sqrt(config.tension), 9)
+    })
+
+    it('takes precedence over "frequency" in the same config', () => {
+      const config = new AnimationConfig()
+      const expected = { ...mergeConfig(config, { visualDuration: 400 }) }
+      mergeConfig(config, { frequency: 0.5, visualDuration: 400 })
+      expect(config.tension).toBe(expected.tension)
+    })
+  })
+
   describe('frequency/damping props', () => {
     it('properly converts to tension/friction', () => {
       const config = new AnimationConfig()
@@ -1,15 +1,20 @@
-import { is } from '@react-spring/shared'
+import { is, eachProp, easings, getEasing } from '@react-spring/shared'
+import { EasingFunction, EasingName, Lookup } from '@react-spring/types'
 import { config as configs } from './constants'
+import type { SpringConfig } from './types'
+import type { Solver } from './solvers'
 
-const linear = (t: number) => t
 const defaults: any = {
   ...configs.default,
   mass: 1,
   damping: 1,
-  easing: linear,
+  easing: easings.linear,
   clamp: false,
 }
 
+/** The range of a circular value */
+export type WrapRange = number | { min?: number; max: number }
+
 export class AnimationConfig {
   /**
    * With higher tension, the spring will resist bouncing and try harder to stop at its end value.
@@ -48,6 +53,26 @@ export class AnimationConfig {
    */
   damping!: number
 
+  /**
+   * The number of milliseconds a spring takes to come (approximately) to rest.
+   *
+   * When defined, `tension` and `friction` are derived from this, `mass`,
+   * and either `dampingRatio` or `bounce`. This takes precedence over
+   * the `frequency` prop.
+   */
+  visualDuration?: number
+
+  /**
+   * The damping ratio used with `visualDuration`.
+   *
+   * Set to `1` to slow down without bouncing. Lower values bounce more,
+   * and higher values approach the goal more slowly.
+   *
+   * Only works when `visualDuration` is defined, and takes precedence
+   * over the `bounce` prop.
+   */
+  dampingRatio?: number
+
   /**
    * Higher mass means more friction is required to slow down.
    *
@@ -95,12 +120,29 @@ export class AnimationConfig {
    */
   duration?: number
 
+  /**
+   * How a `duration` animation reacts to its goal value being changed
+   * while animating.
+   *
+   * - `restart` follows the easing curve from the current value, starting
+   *   at the initial velocity of the curve.
+   *
+   * - `blend` keeps the current velocity, which gradually blends into the
+   *   easing curve. This avoids any kinks when retargeting.
+   *
+   * Defaults to `restart`.
+   */
+  retarget?: 'restart' | 'blend'
+
   /**
    * The animation curve. Only used when `duration` is defined.
    *
-   * Defaults to quadratic ease-in-out.
+   * The `config` prop also accepts the name of any function in the
+   * `easings` object (eg: `"easeOutBack"`).
+   *
+   * Defaults to linear.
    */
-  easing!: (t: number) => number
+  easing!: EasingFunction
 
   /**
    * Avoid overshooting by ending abruptly at the goal value.
@@ -113,6 +155,10 @@ export class AnimationConfig {
    * whenever its current value equals or exceeds its goal. For example,
    * setting `bounce` to `0.5` chops the velocity in half on each bounce,
    * in addition to any friction.
+   *
+   * When `visualDuration` is defined, this is the bounciness of the spring
+   * instead, where `0` means no bounce (a damping ratio of `1`) and values
+   * closer to `1` bounce more.
    */
   bounce?: number
 
@@ -128,6 +174,74 @@ export class AnimationConfig {
    */
   decay?: boolean | number
 
+  /**
+   * The snap points of a decay animation, or a function that picks one.
+   *
+   * When defined, the point where the decay would naturally end is
+   * projected, and a spring (with the `velocity` of the decay) animates
+   * to the nearest snap point (or the one returned by the function).
+   * The snap point becomes the goal value before the animation starts,
+   * unless the `to` prop is defined.
+   *
+   * Only works when `decay` is defined. The `bounds` prop is ignored.
+   */
+  snap?:
+    | readonly number[]
+    | ((projectedEnd: number, velocity: number) => number)
+
+  /**
+   * The limits of a decay animation. When the decaying value crosses one,
+   * a spring (using the `tension`, `friction`, and `mass` props) takes
+   * over and brings the value to rest at that limit.
+   *
+   * Only works when `decay` is defined.
+   */
+  bounds?: { min?: number; max?: number }
+
+  /**
+   * The resistance of a value being moved past its `bounds` by the `set`
+   * method, where `0` means the value stops at its bounds and `1` means
+   * no resistance at all.
+   *
+   * For example, setting `rubberband` to `0.5` moves the value half
+   * of the distance past its bounds.
+   */
+  rubberband?: number
+
+  /**
+   * The range of a circular value (like an angle or a hue), which is
+   * either a number (the `max` value) or a `{ min, max }` object.
+   * The `min` value defaults to `0`.
+   *
+   * When defined, the value takes the shortest path around the circle,
+   * and every animated value is kept within the range. For example,
+   * use `360` to animate from `350` to `10` degrees through `0`.
+   *
+   * For arrays, an array of ranges can be used, where `null` means
+   * the value at that index is not circular.
+   */
+  wrap?: WrapRange | readonly (WrapRange | null)[]
+
+  /**
+   * Decide how the value moves in each frame, instead of using a spring,
+   * a `duration`, or a `decay`. The solver receives the current state of
+   * each animated number, and returns its new position and velocity, and
+   * whether it's at rest.
+   *
+   * The other props of this config are passed to the solver too.
+   */
+  solver?: Solver
+
+  /**
+   * When true, the values of an array are animated as one vector, with one
+   * distance to the goal, one speed, and one rest check. An array
+   * `velocity` is used as a vector too.
+   *
+   * This makes springs move in a straight line when the array is a point
+   * (like `[x, y]`), unless the initial velocity points elsewhere.
+   */
+  coupled?: boolean
+
   /**
    * While animating, round to the nearest multiple of this number.
    * The `from` and `to` values are never rounded, as well as any value
@@ -142,8 +256,8 @@ export class AnimationConfig {
 
 export function mergeConfig(
   config: AnimationConfig,
-  newConfig: Partial<AnimationConfig>,
-  defaultConfig?: Partial<AnimationConfig>
+  newConfig: SpringConfig,
+  defaultConfig?: SpringConfig
 ): typeof config
 
 export function mergeConfig(
@@ -166,6 +280,9 @@ export function mergeConfig(
     }
   }
 
+  // Named easings are replaced with their function.
+  config.easing = getEasing(config.easing)
+
   let { mass, frequency, damping } = config
   if (!is.und(frequency)) {
     if (frequency < 0.01) frequency = 0.01
@@ -174,24 +291,72 @@ export function mergeConfig(
     config.friction = (4 * Math.PI * damping * mass) / frequency
   }
 
+  const { visualDuration } = config
+  if (!is.und(visualDuration)) {
+    const { dampingRatio, bounce } = config
+    let ratio = !is.und(dampingRatio)
+      ? dampingRatio
+      : 1 - (is.und(bounce) ? 0 : bounce)
+    if (ratio < 0.05) ratio = 0.05
+
+    // Find the natural frequency (per second) whose slowest decaying mode
+    // shrinks by a factor of 1000 within the visual duration.
+    const decayRate = ratio < 1 ? ratio : ratio - Math.sqrt(ratio * ratio - 1)
+    const naturalFrequency =
+      (Math.log(1000) * 1000) / (decayRate * Math.max(10, visualDuration))
+
+    config.tension = naturalFrequency * naturalFrequency * mass
+    config.friction = 2 * ratio * naturalFrequency * mass
+  }
+
   return config
 }
 
+/**
+ * Copy the defined props of a config, with named easings replaced by
+ * their names. Other functions (like a custom `solver`) are kept, so
+ * the copy is JSON-safe only when it has none.
+ */
+export function serializeConfig(config: AnimationConfig): SpringConfig {
+  const out: Lookup = {}
+  eachProp(config, (value, key) => {
+    if (!is.und(value)) {
+      const easing =
+        key == 'easing' &&
+        (Object.keys(easings) as EasingName[]).find(
+          name => easings[name] === value
+        )
+      out[key] = easing || value
+    }
+  })
+  return out
+}
+
 // Prevent a config from accidentally overriding new props.
 // This depends on which "config" props take precedence when defined.
 function sanitizeConfig(
   config: Partial<AnimationConfig>,
   props: Partial<AnimationConfig>
 ) {
-  if (!is.und(props.decay)) {
+  if (!is.und(props.solver)) {
+    config.duration = undefined
+    config.decay = undefined
+  } else if (!is.und(props.decay)) {
     config.duration = undefined
+    config.solver = undefined
   } else {
+    if (!is.und(props.duration)) {
+      config.solver = undefined
+    }
     const isTensionConfig = !is.und(props.tension) || !is.und(props.friction)
+    const isFrequencyConfig = !is.und(props.frequency)
     if (
       isTensionConfig ||
-      !is.und(props.frequency) ||
+      isFrequencyConfig ||
       !is.und(props.damping) ||
-      !is.und(props.mass)
+      !is.und(props.mass) ||
+      !is.und(props.visualDuration) ||
+      !is.und(props.dampingRatio)
     ) {
       config.duration = undefined
       config.decay = undefined
@@ -199,5 +364,11 @@ function sanitizeConfig(
     if (isTensionConfig) {
       config.frequency = undefined
     }
+    if (isTensionConfig || isFrequencyConfig) {
+      config.visualDuration = undefined
+    }
+  }
+  if (!is.und(props.bounce)) {
+    config.dampingRatio = undefined
   }
 }
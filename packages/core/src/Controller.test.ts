@@ -1,4 +1,5 @@
 import { Controller } from './Controller'
+import { SpringRef } from './SpringRef'
 import { flushMicroTasks } from 'flush-microtasks'
 
 const frameLength = 1000 / 60
@@ -482,6 +483,256 @@ describe('Controller', () => {
     })
   })
 
+  describe('the "seek" method', () => {
+    it('seeks every animation to the same time', () => {
+      const ctrl = new Controller<{ a: number; b: number }>({ a: 0, b: 0 })
+      ctrl.start({
+        a: 1,
+        b: 1,
+        config: key => ({ duration: key == 'a' ? 1000 : 2000 }),
+      })
+
+      ctrl.seek(500)
+      expect(ctrl.get()).toEqual({ a: 0.5, b: 0.25 })
+      expect(ctrl.progress).toBe(0.25)
+
+      // The longest animation decides the progress.
+      ctrl.progress = 0.5
+      expect(ctrl.get()).toEqual({ a: 1, b: 0.5 })
+    })
+  })
+
+  describe('the "on" method', () => {
+    it('batches the start, change, and rest events', async () => {
+      const ctrl = new Controller({ a: 0, b: 0 })
+      const onStart = jest.fn()
+      const onChange = jest.fn()
+      const onRest = jest.fn()
+      ctrl.on('start', onStart)
+      ctrl.on('change', onChange)
+      ctrl.on('rest', onRest)
+
+      ctrl.start({ a: 1, b: 2 })
+      await advanceUntilIdle()
+
+      expect(onStart).toBeCalledTimes(1)
+      expect(onStart).toBeCalledWith(ctrl)
+      expect(onChange).toHaveBeenLastCalledWith({ a: 1, b: 2 })
+      expect(onRest).toBeCalledTimes(1)
+      expect(onRest.mock.calls[0][0]).toMatchObject({
+        value: { a: 1, b: 2 },
+        finished: true,
+        target: ctrl,
+      })
+    })
+    it('forwards other events from each spring', () => {
+      const ctrl = new Controller({ a: 0, b: 0 })
+      const onPause = jest.fn()
+      ctrl.on('pause', onPause)
+
+      ctrl.start({ a: 1, b: 1 })
+      ctrl.pause('a')
+      expect(onPause).toBeCalledTimes(1)
+      expect(onPause).toBeCalledWith(ctrl.springs.a)
+    })
+    it('works with a SpringRef', async () => {
+      const ref = new SpringRef()
+      const onStart = jest.fn()
+      const onRest = jest.fn()
+      ref.on('start', onStart)
+      ref.once('rest', onRest)
+
+      // Controllers added later are listened to.
+      const ctrl = new Controller({ a: 0 })
+      ref.add(ctrl)
+
+      ref.start({ a: 1 })
+      await advanceUntilIdle()
+      ref.start({ a: 0 })
+      await advanceUntilIdle()
+      expect(onStart).toBeCalledTimes(2)
+      expect(onRest).toBeCalledTimes(1)
+
+      // Deleted controllers are not.
+      ref.delete(ctrl)
+      ctrl.start({ a: 1 })
+      await advanceUntilIdle()
+      expect(onStart).toBeCalledTimes(2)
+    })
+  })
+
+  describe('the "speed" property', () => {
+    const config = { duration: 1000 }
+
+    it('scales the duration of every animation', () => {
+      const ctrl = new Controller({ a: 0, b: 0 })
+      ctrl.speed = 0.5
+      ctrl.start({ a: 1, b: 2, config })
+      expect(ctrl.speed).toBe(0.5)
+
+      ctrl.each(spring => spring.advance(500))
+      expect(ctrl.get()).toEqual({ a: 0.25, b: 0.5 })
+    })
+    it('is multiplied with the default "speed" prop', () => {
+      const ctrl = new Controller({ x: 0 })
+      ctrl.start({ x: 1, config, speed: 0.5, default: { speed: 0.5 } })
+      expect(ctrl.speed).toBe(0.5)
+      expect(ctrl.springs.x.speed).toBe(0.5)
+
+      ctrl.springs.x.advance(1000)
+      expect(ctrl.get()).toEqual({ x: 0.25 })
+    })
+    it('scales the "delay" prop', async () => {
+      const ctrl = new Controller({ x: 0 })
+      ctrl.speed = 0.5
+      ctrl.start({ x: 1, delay: 100 })
+
+      await advanceByTime(150)
+      expect(ctrl.springs.x.goal).toBe(0)
+
+      await advanceByTime(100)
+      expect(ctrl.springs.x.goal).toBe(1)
+    })
+    it('can be set on a SpringRef', async () => {
+      const ref = new SpringRef()
+      const first = new Controller({ x: 0 })
+      ref.add(first)
+      ref.speed = 0.5
+
+      // Controllers added later use the same speed.
+      const second = new Controller({ x: 0 })
+      ref.add(second)
+      expect(second.speed).toBe(0.5)
+
+      ref.start({ x: 1, delay: 100, config })
+      await advanceByTime(150)
+      expect(first.springs.x.goal).toBe(0)
+
+      await advanceByTime(100)
+      for (const ctrl of [first, second]) {
+        const spring = ctrl.springs.x
+        expect(spring.goal).toBe(1)
+
+        const value = spring.get()
+        spring.advance(100)
+        expect(spring.get()).toBeCloseTo(value + 0.05)
+      }
+    })
+  })
+
+  describe('the "snapshot" method', () => {
+    it('can be restored by another controller', async () => {
+      const ctrl = new Controller<{ a: number; b: string }>({
+        a: 0,
+        b: '0px',
+      })
+      ctrl.start({ a: 1, b: '100px', config: { duration: 1000 } })
+      ctrl.seek(400)
+
+      const snapshot = JSON.parse(JSON.stringify(ctrl.snapshot()))
+      expect(snapshot.a).toMatchObject({ value: 0.4, goal: 1, from: 0 })
+
+      // Missing springs are created.
+      const copy = new Controller<{ a: number; b: string }>()
+      copy.restore(snapshot)
+      expect(copy.get()).toEqual({ a: 0.4, b: '40px' })
+
+      await advanceUntilIdle()
+      expect(copy.get()).toEqual({ a: 1, b: '100px' })
+    })
+  })
+
+  describe('the "frames" method', () => {
+    it('yields every frame until all values are at rest', async () => {
+      const ctrl = new Controller<{ a: number; b: number }>({ a: 0, b: 0 })
+      ctrl.start({
+        a: 1,
+        b: 2,
+        config: key => ({ duration: (key == 'a' ? 5 : 10) * frameLength }),
+      })
+
+      const values: { a: number; b: number }[] = []
+      const done = (async () => {
+        for await (const value of ctrl.frames({ backpressure: 'buffer' })) {
+          values.push(value)
+        }
+      })()
+
+      await advanceUntilIdle()
+      await done
+      expect(values.map(value => value.b)).toEqual(getFrames(ctrl.springs.b))
+      expect(values[values.length - 1]).toEqual({ a: 1, b: 2 })
+    })
+    it('waits for animations that start later', async () => {
+      const ctrl = new Controller({ a: 0 })
+      const values = collectFrames(ctrl)
+
+      await advanceByTime(100)
+      ctrl.start({ a: 1, delay: 100, config: { duration: 5 * frameLength } })
+      await advanceByTime(50)
+
+      await advanceUntilIdle()
+      expect((await values).slice(-1)).toEqual([{ a: 1 }])
+      expect(ctrl['_listeners'].has('change')).toBeFalsy()
+    })
+    it('yields the springs added later', async () => {
+      const ctrl = new Controller<{ a: number; b?: number }>({ a: 0 })
+      ctrl.start({ a: 1, config: { duration: 2 * frameLength } })
+      const values = collectFrames(ctrl)
+
+      await advance()
+      ctrl.start({
+        b: 1,
+        from: { b: 0 },
+        config: { duration: 5 * frameLength },
+      })
+
+      await advanceUntilIdle()
+      expect((await values).slice(-1)).toEqual([{ a: 1, b: 1 }])
+    })
+    it('waits for async animations to finish', async () => {
+      const ctrl = new Controller({ a: 0 })
+      ctrl.start({
+        to: async next => {
+          await next({ a: 1, config: { duration: 2 * frameLength } })
+          await next({
+            a: 2,
+            delay: 100,
+            config: { duration: 2 * frameLength },
+          })
+        },
+      })
+      const values = collectFrames(ctrl)
+
+      await advanceUntilIdle()
+      expect((await values).slice(-1)).toEqual([{ a: 2 }])
+    })
+    it('ends when stopped before anything changed', async () => {
+      const ctrl = new Controller({ a: 0 })
+      ctrl.start({ a: 1 })
+
+      const frames = ctrl.frames()
+      ctrl.stop()
+      mockRaf.step()
+      expect(await frames.next()).toEqual({ value: undefined, done: true })
+      expect(ctrl['_listeners'].has('change')).toBeFalsy()
+      expect(ctrl['_frameChecks'].size).toBe(0)
+    })
+  })
+
+  describe('the "reverse" method', () => {
+    it('plays every animation backwards', async () => {
+      const ctrl = new Controller<{ a: number; b: number }>({ a: 0, b: 0 })
+      ctrl.start({ a: 1, b: 2, config: { duration: 1000 } })
+
+      await advanceUntil(() => ctrl.springs.a.get() >= 0.5)
+      const result = await Promise.all([ctrl.reverse(), advanceUntilIdle()])
+
+      expect(ctrl.get()).toEqual({ a: 0, b: 0 })
+      expect(result[0]).toMatchObject({ finished: true, reversed: true })
+    })
+  })
+
   describe('the "stop" method', () => {
     it('prevents any updates with pending delays', async () => {
       const ctrl = new Controller<{ t: number }>({ t: 0 })
@@ -508,3 +759,12 @@ describe('Controller', () => {
     })
   })
 })
+
+/** Collect the values yielded by the "frames" method until it ends. */
+async function collectFrames<State extends object>(ctrl: Controller<State>) {
+  const values: State[] = []
+  for await (const value of ctrl.frames({ backpressure: 'buffer' })) {
+    values.push(value)
+  }
+  return values
+}
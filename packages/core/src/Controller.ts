@@ -7,11 +7,12 @@ import {
   toArray,
   eachProp,
   flushCalls,
-  Globals as G,
 } from '@react-spring/shared'
 
 import { getDefaultProp } from './helpers'
 import { FrameValue } from './FrameValue'
+import { iterateFrames } from './frames'
+import { Listeners } from './Listeners'
 import { SpringRef } from './SpringRef'
 import { SpringValue, createLoopUpdate, createUpdate } from './SpringValue'
 import { getCancelledResult, getCombinedResult } from './AnimationResult'
@@ -20,9 +21,13 @@ import { scheduleProps } from './scheduleProps'
 import {
   AnimationResult,
   AsyncResult,
+  ControllerEvents,
   ControllerFlushFn,
+  ControllerSnapshot,
   ControllerUpdate,
+  FramesOptions,
   OnRest,
+  SpringSnapshot,
   SpringValues,
 } from './types'
 
@@ -89,6 +94,15 @@ export class Controller<State extends Lookup = Lookup>
     onRest: new Map<OnRest, AnimationResult>(),
   }
 
+  /** The listeners added by the `on` and `once` methods */
+  protected _listeners = new Listeners<ControllerEvents<State>>()
+
+  /** The combined result of springs that came to rest, for "rest" listeners */
+  protected _restResult?: AnimationResult
+
+  /** Called at the end of every frame in which a spring changed or went idle */
+  protected _frameChecks = new Set<() => void>()
+
   constructor(
     props?: ControllerUpdate<State> | null,
     flush?: ControllerFlushFn<any>
@@ -209,6 +223,157 @@ export class Controller<State extends Lookup = Lookup>
     return this
   }
 
+  /**
+   * Play every animation backwards from its current value,
+   * until the value where it started.
+   */
+  reverse(keys?: OneOrMore<string>): AsyncResult<this> {
+    const springs = this.springs as Lookup<SpringValue>
+    const promises = is.und(keys)
+      ? Object.keys(springs).map(key => springs[key].reverse())
+      : toArray(keys).map(key => springs[key].reverse())
+
+    return Promise.all(promises).then(results => ({
+      ...getCombinedResult(this, results as any[]),
+      reversed: true,
+    }))
+  }
+
+  /**
+   * The value of the last `speed` prop, which scales the passage of time
+   * for every animation and delay. Like `SpringValue#speed`, the default
+   * `speed` prop and `Globals.speed` are multiplied with it.
+   *
+   * Setting this updates the `speed` prop of every spring.
+   */
+  get speed() {
+    return this._state.speed ?? 1
+  }
+
+  set speed(speed: number) {
+    this.start({ speed })
+  }
+
+  /**
+   * The progress of the longest animation, between 0 and 1.
+   *
+   * Setting this seeks every animation to the same point in time.
+   */
+  get progress() {
+    let time = 0
+    let duration = 0
+    this.each(spring => {
+      time = Math.max(time, spring.elapsedTime)
+      duration = Math.max(duration, spring.duration)
+    })
+    return duration > 0 ? Math.min(1, time / duration) : 1
+  }
+
+  set progress(progress: number) {
+    let duration = 0
+    this.each(spring => {
+      duration = Math.max(duration, spring.duration)
+    })
+    this.seek(progress * duration)
+  }
+
+  /**
+   * Jump to a point in time (in milliseconds) of every animation.
+   * Seeking backwards is allowed.
+   */
+  seek(time: number) {
+    this.each(spring => spring.seek(time))
+    return this
+  }
+
+  /**
+   * Get the state of every spring value, which is JSON-safe unless
+   * a config has custom functions.
+   */
+  snapshot() {
+    const snapshot: Lookup<SpringSnapshot> = {}
+    this.each((spring, key) => (snapshot[key] = spring.snapshot()))
+    return snapshot as ControllerSnapshot<State>
+  }
+
+  /**
+   * Continue the animations of a snapshot, which may come from
+   * another controller. Spring values are created for missing keys.
+   */
+  restore(snapshot: ControllerSnapshot<State>) {
+    const springs = this.springs as Lookup<SpringValue>
+    eachProp(snapshot as Lookup<SpringSnapshot>, (snapshot, key) => {
+      const spring = springs[key] || (springs[key] = createSpring(key, this))
+      spring.restore(snapshot)
+    })
+    return this
+  }
+
+  /**
+   * Iterate the values after each frame in which any changed, until
+   * an animation has run and every animation is stopped, or until
+   * the `signal` is aborted.
+   *
+   * Animations that start later (like after a `delay`) are waited for.
+   */
+  frames(options?: FramesOptions) {
+    const state = this._state
+
+    // Springs are read on each check, so springs added later are included.
+    const isAnimating = () =>
+      Object.values(this.springs as Lookup<SpringValue>).some(
+        spring => spring.isAnimating
+      )
+
+    return iterateFrames<State>((push, end) => {
+      // Async animations are checked again once finished.
+      let waiting: Promise<any> | undefined
+      const check = () => {
+        if (state.asyncTo) {
+          if (state.promise && state.promise !== waiting) {
+            waiting = state.promise
+            waiting.then(check, check)
+          }
+        } else if (!isAnimating()) {
+          end()
+        }
+      }
+      const unsubscribeChange = this.on('change', push)
+      this._frameChecks.add(check)
+      return () => {
+        unsubscribeChange()
+        this._frameChecks.delete(check)
+      }
+    }, options)
+  }
+
+  /**
+   * Listen to an event until the returned function is called.
+   * Unlike event props, listeners are never replaced by an update.
+   */
+  on<E extends keyof ControllerEvents<State>>(
+    event: E,
+    listener: ControllerEvents<State>[E]
+  ) {
+    return this._listeners.add(event, listener)
+  }
+
+  /** Listen to the next call of an event only. */
+  once<E extends keyof ControllerEvents<State>>(
+    event: E,
+    listener: ControllerEvents<State>[E]
+  ) {
+    return this._listeners.add(event, listener, true)
+  }
+
+  /** Stop listening to an event. */
+  off<E extends keyof ControllerEvents<State>>(
+    event: E,
+    listener: ControllerEvents<State>[E]
+  ) {
+    this._listeners.delete(event, listener)
+  }
+
   /** Call a function once per spring value */
   each(iterator: (spring: SpringValue, key: string) => void) {
     eachProp(this.springs, iterator as any)
@@ -217,19 +382,26 @@ export class Controller<State extends Lookup = Lookup>
   /** @internal Called at the end of every animation frame */
   protected _onFrame() {
     const { onStart, onChange, onRest } = this._events
+    const listeners = this._listeners
 
     const active = this._active.size > 0
     if (active && !this._started) {
       this._started = true
       flushCalls(onStart, this)
+      listeners.emit('start', this)
     }
 
     const idle = !active && this._started
-    const changed = this._changed.size > 0 && onChange.size
-    const values = changed || (idle && onRest.size) ? this.get() : null
+    const changed =
+      this._changed.size > 0 && (onChange.size || listeners.has('change'))
+    const values =
+      changed || (idle && (onRest.size || listeners.has('rest')))
+        ? this.get()
+        : null
 
     if (changed) {
       flushCalls(onChange, values!)
+      listeners.emit('change', values!)
     }
 
     // The "onRest" queue is only flushed when all springs are idle.
@@ -239,7 +411,16 @@ export class Controller<State extends Lookup = Lookup>
         result.value = values
         onRest(result)
       })
+
+      const result = this._restResult
+      if (result) {
+        this._restResult = undefined
+        result.value = values
+        listeners.emit('rest', result)
+      }
     }
+
+    each(this._frameChecks, check => check())
   }
 
   /** @internal */
@@ -251,10 +432,33 @@ export class Controller<State extends Lookup = Lookup>
       }
     } else if (event.type == 'idle') {
       this._active.delete(event.parent)
+    } else if (event.type == 'event') {
+      return this._onSpringEvent(event)
     }
     // The `onFrame` handler runs when a parent is changed or idle.
     else return
-    G.frameLoop.onFrame(this._onFrame)
+    event.parent.frameLoop.onFrame(this._onFrame)
+  }
+
+  /** Forward the events of our springs, except for batched events. */
+  protected _onSpringEvent({ event, args }: FrameValue.ListenerEvent) {
+    if (event == 'rest') {
+      const { finished, cancelled } = args[0] as AnimationResult
+      const result = this._restResult
+      if (result) {
+        if (!finished) result.finished = false
+        if (cancelled) result.cancelled = true
+      } else {
+        this._restResult = {
+          target: this,
+          value: null,
+          finished,
+          cancelled,
+        }
+      }
+    } else if (event != 'start') {
+      this._listeners.emit(event as 'pause', ...(args as [SpringValue]))
+    }
   }
 }
 
@@ -352,6 +556,10 @@ export async function flushUpdate(
     props.pause = true
   }
 
+  if (!is.und(props.speed)) {
+    state.speed = props.speed
+  }
+
   const promises: AsyncResult[] = (keys || Object.keys(ctrl.springs)).map(key =>
     ctrl.springs[key]!.start(props as any)
   )
@@ -1,14 +1,19 @@
 import {
   deprecateInterpolate,
+  is,
   each,
   FluidValue,
   FluidObserver,
+  FrameLoop,
   Globals as G,
 } from '@react-spring/shared'
 import { InterpolatorArgs } from '@react-spring/types'
 import { getAnimated } from '@react-spring/animated'
 
 import { Interpolation } from './Interpolation'
+import { EventMap, Listeners } from './Listeners'
+import { $$observable, ObservableObserver, Subscription } from './observable'
+import { FrameValueEvents } from './types'
 
 export const isFrameValue = (value: any): value is FrameValue =>
   value instanceof FrameValue
@@ -20,8 +25,10 @@ let nextId = 1
  *
  * Its underlying value can be accessed and even observed.
  */
-export abstract class FrameValue<T = any>
-  extends FluidValue<T, FrameValue.Event<T>>
+export abstract class FrameValue<
+  T = any,
+  Events extends EventMap<Events> = FrameValueEvents<T>
+> extends FluidValue<T, FrameValue.Event<T>>
   implements FluidObserver<FrameValue.Event> {
   readonly id = nextId++
 
@@ -31,6 +38,9 @@ export abstract class FrameValue<T = any>
   protected _priority = 0
   protected _children = new Set<FrameValue.Observer<T>>()
 
+  /** The listeners added by the `on` and `once` methods */
+  protected _listeners = new Listeners<any>()
+
   get priority() {
     return this._priority
   }
@@ -41,6 +51,11 @@ export abstract class FrameValue<T = any>
     }
   }
 
+  /** The frameloop that advances this value */
+  get frameLoop(): FrameLoop {
+    return G.frameLoop
+  }
+
   /** Get the current value */
   get(): T {
     const node = getAnimated(this)
@@ -62,6 +77,60 @@ export abstract class FrameValue<T = any>
     return this.get()
   }
 
+  /**
+   * Listen to an event until the returned function is called.
+   * Unlike event props, listeners are never replaced by an update.
+   */
+  on<E extends keyof Events>(event: E, listener: Events[E]) {
+    return this._listeners.add(event, listener)
+  }
+
+  /** Listen to the next call of an event only. */
+  once<E extends keyof Events>(event: E, listener: Events[E]) {
+    return this._listeners.add(event, listener, true)
+  }
+
+  /** Stop listening to an event. */
+  off<E extends keyof Events>(event: E, listener: Events[E]) {
+    this._listeners.delete(event, listener)
+  }
+
+  /**
+   * Observe our value like a TC39 observable, which is compatible with
+   * RxJS. Only changes are observed, and the observer is a child of
+   * this value until unsubscribed.
+   */
+  subscribe(observer: ObservableObserver<T> | ((value: T) => void)) {
+    const { next } = is.fun(observer) ? { next: observer } : observer
+    const child: FrameValue.Observer<T> = {
+      onParentChange(event) {
+        if (event.type == 'change' && next) {
+          next.call(observer, event.value)
+        }
+      },
+    }
+    this.addChild(child)
+
+    let closed = false
+    const subscription: Subscription = {
+      get closed() {
+        return closed
+      },
+      unsubscribe: () => {
+        if (!closed) {
+          closed = true
+          this.removeChild(child)
+        }
+      },
+    }
+    return subscription
+  }
+
+  /** Used by observable libraries, like the `from` function of RxJS. */
+  [$$observable]() {
+    return this
+  }
+
   /** @internal */
   addChild(child: FrameValue.Observer<T>): void {
     if (!this._children.size) this._attach()
@@ -86,8 +155,9 @@ export abstract class FrameValue<T = any>
   /** Called when the last child is removed. */
   protected _detach() {}
 
-  /** Tell our children about our new value */
+  /** Tell our listeners and children about our new value */
   protected _onChange(value: T, idle = false) {
+    this._listeners.emit('change', value, this)
     this._emit({
       type: 'change',
       parent: this,
@@ -100,7 +170,7 @@ export abstract class FrameValue<T = any>
   protected _onPriorityChange(priority: number) {
     if (!this.idle) {
       // Make the frameloop aware of our new priority.
-      G.frameLoop.start(this)
+      this.frameLoop.start(this)
     }
     this._emit({
       type: 'priority',
@@ -145,12 +215,21 @@ export declare namespace FrameValue {
     type: 'idle'
   }
 
+  /** A parent called the listeners of an event (other than "change") */
+  interface ListenerEvent<T = any> {
+    parent: FrameValue<T>
+    type: 'event'
+    event: string
+    args: any[]
+  }
+
   /** Events sent to children of `FrameValue` objects */
   export type Event<T = any> =
     | ChangeEvent<T>
     | PriorityEvent<T>
     | ResetEvent<T>
     | IdleEvent<T>
+    | ListenerEvent<T>
 
   /** An object that handles `FrameValue` events */
   export type Observer<T = any> = FluidObserver<Event<T>>
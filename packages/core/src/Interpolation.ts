@@ -10,6 +10,7 @@ import {
   isEqual,
   toArray,
   FluidValue,
+  FrameLoop,
   createInterpolator,
   Globals as G,
 } from '@react-spring/shared'
@@ -43,6 +44,9 @@ export class Interpolation<In = any, Out = any> extends FrameValue<Out> {
   /** The inputs which are currently animating */
   protected _active = new Set<FluidValue>()
 
+  /** The frameloop advancing this value, while not idle */
+  protected _frameLoop?: FrameLoop
+
   constructor(
     /** The source of input values */
     readonly source: OneOrMore<FluidValue>,
@@ -58,6 +62,12 @@ export class Interpolation<In = any, Out = any> extends FrameValue<Out> {
     setAnimated(this, nodeType.create(value))
   }
 
+  /** The frameloop of our first `FrameValue` source */
+  get frameLoop() {
+    const source = toArray(this.source).find(isFrameValue)
+    return source ? source.frameLoop : G.frameLoop
+  }
+
   advance(_dt?: number) {
     const value = this._get()
     const oldValue = this.get()
@@ -91,9 +101,20 @@ export class Interpolation<In = any, Out = any> extends FrameValue<Out> {
         G.batchedUpdates(() => this.advance())
         becomeIdle(this)
       } else {
-        G.frameLoop.start(this)
+        this._frameLoop = this.frameLoop
+        this._frameLoop.start(this)
       }
     }
+    // Follow our sources when they move to another frameloop.
+    else if (
+      !this.idle &&
+      this._frameLoop &&
+      this._frameLoop !== this.frameLoop
+    ) {
+      this._frameLoop.stop(this)
+      this._frameLoop = this.frameLoop
+      this._frameLoop.start(this)
+    }
   }
 
   // Observe our sources only when we're observed.
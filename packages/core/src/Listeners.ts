@@ -0,0 +1,48 @@
+import { each } from '@react-spring/shared'
+import { AnyFn } from '@react-spring/types'
+
+/** Map the name of each event to its listener type */
+export type EventMap<Events> = { [E in keyof Events]: AnyFn }
+
+/**
+ * The listeners added by the `on` and `once` methods, which are
+ * independent of any props.
+ */
+export class Listeners<Events extends EventMap<Events>> {
+  protected _events: { [E in keyof Events]?: Map<Events[E], boolean> } = {}
+
+  /**
+   * Add a listener, which is removed after one call when `once` is true.
+   * The returned function removes the listener.
+   */
+  add<E extends keyof Events>(event: E, listener: Events[E], once = false) {
+    let listeners = this._events[event]
+    if (!listeners) {
+      listeners = this._events[event] = new Map()
+    }
+    listeners.set(listener, once)
+    return () => this.delete(event, listener)
+  }
+
+  /** Remove a listener */
+  delete<E extends keyof Events>(event: E, listener: Events[E]) {
+    this._events[event]?.delete(listener)
+  }
+
+  /** Returns true if the given event has any listeners. */
+  has(event: keyof Events) {
+    return !!this._events[event]?.size
+  }
+
+  /** Call the listeners of an event */
+  emit<E extends keyof Events>(event: E, ...args: Parameters<Events[E]>) {
+    const listeners: Map<Events[E], boolean> | undefined = this._events[event]
+    if (listeners && listeners.size) {
+      // Copy the listeners, so they can be removed while looping.
+      each(Array.from(listeners), ([listener, once]) => {
+        if (once) listeners.delete(listener)
+        listener(...args)
+      })
+    }
+  }
+}
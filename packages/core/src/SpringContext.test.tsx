@@ -1,5 +1,6 @@
 import * as React from 'react'
 import { render, RenderResult } from '@testing-library/react'
+import { ManualFrameLoop } from '@react-spring/shared'
 import { SpringContext } from './SpringContext'
 import { SpringValue } from './SpringValue'
 import { useSpring } from './hooks'
@@ -112,6 +113,88 @@ describe('SpringContext', () => {
     expect(t.idle).toBeTruthy()
     expect(t.get()).toBe(2)
   })
+
+  it('can change the speed of animations', () => {
+    update({ speed: 0.5 })
+    t.advance(100)
+    expect(t.elapsedTime).toBe(50)
+
+    // The default speed is kept apart from the "speed" prop.
+    expect(t.speed).toBe(1)
+
+    // Nested contexts multiply their speeds.
+    render(
+      <SpringContext speed={0.5}>
+        <SpringContext speed={0.5}>
+          <Child />
+        </SpringContext>
+      </SpringContext>
+    )
+    t.advance(100)
+    expect(t.elapsedTime).toBe(25)
+  })
+
+  it('can provide a frameloop', () => {
+    const frameLoop = new ManualFrameLoop()
+    update({ frameLoop })
+    expect(t.frameLoop).toBe(frameLoop)
+
+    mockRaf.step()
+    expect(t.get()).toBe(0)
+
+    frameLoop.step(100)
+    expect(t.get()).toBeGreaterThan(0)
+  })
+  it('keeps nested frameloops independent', () => {
+    const outerLoop = new ManualFrameLoop()
+    const innerLoop = new ManualFrameLoop()
+
+    let u!: SpringValue<number>
+    const Outer = () => {
+      u = useSpring({ u: 1, from: { u: 0 } }).u
+      return null
+    }
+    render(
+      <SpringContext frameLoop={outerLoop}>
+        <Outer />
+        <SpringContext frameLoop={innerLoop}>
+          <Child />
+        </SpringContext>
+      </SpringContext>
+    )
+    expect(u.frameLoop).toBe(outerLoop)
+    expect(t.frameLoop).toBe(innerLoop)
+
+    outerLoop.paused = true
+    outerLoop.step(100)
+    innerLoop.step(100)
+    expect(u.get()).toBe(0)
+    expect(t.get()).toBeGreaterThan(0)
+  })
+  it('moves current animations onto a new frameloop', () => {
+    const firstLoop = new ManualFrameLoop()
+    const secondLoop = new ManualFrameLoop()
+    update({ frameLoop: firstLoop })
+
+    const doubled = t.to(t => t * 2)
+    doubled.addChild({ onParentChange() {} })
+
+    firstLoop.step(100)
+    const value = t.get()
+    expect(value).toBeGreaterThan(0)
+    expect(doubled.get()).toBe(value * 2)
+
+    update({ frameLoop: secondLoop })
+    expect(t.frameLoop).toBe(secondLoop)
+
+    firstLoop.step(100)
+    expect(t.get()).toBe(value)
+
+    secondLoop.step(100)
+    expect(t.get()).toBeGreaterThan(value)
+    expect(doubled.get()).toBe(t.get() * 2)
+    expect(firstLoop.isIdle()).toBeTruthy()
+  })
 })
 
 function createUpdater(Component: React.ComponentType<SpringContext>) {
@@ -1,5 +1,6 @@
 import * as React from 'react'
 import { useContext, PropsWithChildren } from 'react'
+import { is, FrameLoop, ReducedMotion } from '@react-spring/shared'
 import { useMemo } from './helpers'
 
 /**
@@ -11,6 +12,16 @@ export interface SpringContext {
   pause?: boolean
   /** Force all new and existing animations to be immediate. */
   immediate?: boolean
+  /** Scale the passage of time. Nested contexts multiply their speeds. */
+  speed?: number
+  /**
+   * Advance all new and existing animations with this frameloop,
+   * instead of `Globals.frameLoop`. Its `speed` and `paused` properties
+   * affect this subtree only.
+   */
+  frameLoop?: FrameLoop
+  /** When to reduce the motion of all new and existing animations. */
+  reducedMotion?: ReducedMotion
 }
 
 const ctx = React.createContext<SpringContext>({})
@@ -20,10 +31,21 @@ export const SpringContext = ({
   ...props
 }: PropsWithChildren<SpringContext>) => {
   const inherited = useContext(ctx)
-  const { pause = inherited.pause, immediate = inherited.immediate } = props
+  const {
+    pause = inherited.pause,
+    immediate = inherited.immediate,
+    frameLoop = inherited.frameLoop,
+    reducedMotion = inherited.reducedMotion,
+  } = props
+  const speed = is.und(props.speed)
+    ? inherited.speed
+    : props.speed * (inherited.speed ?? 1)
 
   // Memoize the context to avoid unwanted renders.
-  props = useMemo(() => ({ pause, immediate }), [pause, immediate])
+  props = useMemo(
+    () => ({ pause, immediate, speed, frameLoop, reducedMotion }),
+    [pause, immediate, speed, frameLoop, reducedMotion]
+  )
 
   const { Provider } = ctx
   return <Provider value={props}>{children}</Provider>
@@ -1,7 +1,8 @@
 import { each, is } from '@react-spring/shared'
 import { Lookup, Falsy, OneOrMore } from '@react-spring/types'
-import { AsyncResult, ControllerUpdate } from './types'
+import { AsyncResult, ControllerEvents, ControllerUpdate } from './types'
 import { Controller } from './Controller'
+import { Listeners } from './Listeners'
 
 interface ControllerUpdateFn<State extends Lookup = Lookup> {
   (ctrl: Controller<State>, i: number): ControllerUpdate<State> | Falsy
@@ -10,6 +11,31 @@ interface ControllerUpdateFn<State extends Lookup = Lookup> {
 export class SpringRef<State extends Lookup = Lookup> {
   readonly current: Controller<State>[] = []
 
+  /** The listeners added by the `on` and `once` methods */
+  protected _listeners = new Listeners<ControllerEvents<State>>()
+
+  /** The events forwarded from each controller */
+  protected _forwarded = new Set<keyof ControllerEvents<State>>()
+
+  /** Stop forwarding the events of a controller */
+  protected _unforward = new Map<Controller<State>, (() => void)[]>()
+
+  /** The speed set by the `speed` property */
+  protected _speed?: number
+
+  /**
+   * The speed given to every controller, including controllers added later.
+   * This is 1 until set.
+   */
+  get speed() {
+    return this._speed ?? 1
+  }
+
+  set speed(speed: number) {
+    this._speed = speed
+    each(this.current, ctrl => (ctrl.speed = speed))
+  }
+
   /** Start the queued animations of each controller. */
   start(): AsyncResult<Controller<State>>[]
   /** Update every controller with the same props. */
@@ -50,17 +76,76 @@ export class SpringRef<State extends Lookup = Lookup> {
     return this
   }
 
+  /**
+   * Listen to an event of every controller, including controllers
+   * added later, until the returned function is called.
+   */
+  on<E extends keyof ControllerEvents<State>>(
+    event: E,
+    listener: ControllerEvents<State>[E]
+  ) {
+    this._forward(event)
+    return this._listeners.add(event, listener)
+  }
+
+  /** Listen to the next call of an event only. */
+  once<E extends keyof ControllerEvents<State>>(
+    event: E,
+    listener: ControllerEvents<State>[E]
+  ) {
+    this._forward(event)
+    return this._listeners.add(event, listener, true)
+  }
+
+  /** Stop listening to an event. */
+  off<E extends keyof ControllerEvents<State>>(
+    event: E,
+    listener: ControllerEvents<State>[E]
+  ) {
+    this._listeners.delete(event, listener)
+  }
+
   /** Add a controller to this ref */
   add(ctrl: Controller<State>) {
     if (!this.current.includes(ctrl)) {
       this.current.push(ctrl)
+      each(this._forwarded, event => this._forwardFrom(ctrl, event))
+      if (!is.und(this._speed)) {
+        ctrl.speed = this._speed
+      }
     }
   }
 
   /** Remove a controller from this ref */
   delete(ctrl: Controller<State>) {
     const i = this.current.indexOf(ctrl)
-    if (~i) this.current.splice(i, 1)
+    if (~i) {
+      this.current.splice(i, 1)
+      each(this._unforward.get(ctrl) || [], off => off())
+      this._unforward.delete(ctrl)
+    }
+  }
+
+  /** Forward an event from every controller to our listeners. */
+  protected _forward(event: keyof ControllerEvents<State>) {
+    if (!this._forwarded.has(event)) {
+      this._forwarded.add(event)
+      each(this.current, ctrl => this._forwardFrom(ctrl, event))
+    }
+  }
+
+  protected _forwardFrom(
+    ctrl: Controller<State>,
+    event: keyof ControllerEvents<State>
+  ) {
+    const listeners: Listeners<any> = this._listeners
+    const off = ctrl.on(event, ((...args: any[]) => {
+      listeners.emit(event, ...args)
+    }) as any)
+
+    const unforward = this._unforward.get(ctrl)
+    if (unforward) unforward.push(off)
+    else this._unforward.set(ctrl, [off])
   }
 
   /** Overridden by `useTrail` to manipulate props */
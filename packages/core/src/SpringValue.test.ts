@@ -1,7 +1,16 @@
 import { SpringValue } from './SpringValue'
 import { FrameValue } from './FrameValue'
+import { Solver, springSolver } from './solvers'
+import { SpringConfig } from './types'
 import { flushMicroTasks } from 'flush-microtasks'
-import { Globals } from '@react-spring/shared'
+import {
+  Globals,
+  FrameLoop,
+  ManualFrameLoop,
+  easings,
+} from '@react-spring/shared'
+
+declare const AbortController: any
 
 const frameLength = 1000 / 60
 
@@ -128,6 +137,7 @@ function describeProps() {
   describeConfigProp()
   describeLoopProp()
   describeDelayProp()
+  describeSpeedProp()
 }
 
 function describeToProp() {
@@ -164,6 +174,59 @@ function describeToProp() {
     })
   })
 
+  describe('when "to" prop is relative', () => {
+    it('is resolved against the goal value', async () => {
+      const spring = new SpringValue(0)
+      spring.start(100)
+      spring.start('+=50')
+      expect(spring.goal).toBe(150)
+      spring.start('*=2')
+      expect(spring.goal).toBe(300)
+
+      await advanceUntilIdle()
+      expect(spring.get()).toBe(300)
+    })
+
+    it('composes with delayed updates', async () => {
+      const spring = new SpringValue(0)
+      spring.start('+=100', { delay: 100 })
+      spring.start('-=30', { delay: 200 })
+      await advanceUntilIdle()
+      expect(spring.get()).toBe(70)
+    })
+
+    it('keeps the unit of the goal value', async () => {
+      const spring = new SpringValue('10px')
+      spring.start('+=5')
+      expect(spring.goal).toBe('15px')
+      spring.start('-=45px')
+      expect(spring.goal).toBe('-30px')
+      await expect(spring.start('+=1em')).rejects.toThrow()
+    })
+
+    it('works in async chains', async () => {
+      const spring = new SpringValue(0)
+      spring.start({ to: [{ to: '+=10' }, { to: '+=10' }] })
+      await advanceUntilIdle()
+      expect(spring.get()).toBe(20)
+    })
+
+    it('works with the "loop" prop', async () => {
+      let loops = 2
+      const spring = new SpringValue(0)
+      spring.start('+=10', { loop: () => loops-- > 0 })
+      await advanceUntilIdle()
+      expect(spring.get()).toBe(30)
+    })
+
+    it('works with the "from" prop', async () => {
+      const spring = new SpringValue(100)
+      spring.start({ from: '-=50', to: '+=50' })
+      expect(spring.get()).toBe(50)
+      expect(spring.goal).toBe(150)
+    })
+  })
+
   describe('when "to" prop is a function', () => {
     describe('and "from" prop is defined', () => {
       it('stops the active animation before "to" is called', () => {
@@ -441,6 +504,414 @@ function describeConfigProp() {
         expect(countBounces(spring)).toBeGreaterThan(0)
       })
     })
+    describe('when "clamp" is true', () => {
+      it('stops at the goal value', async () => {
+        const spring = new SpringValue(0)
+        spring.start(1, {
+          config: { tension: 180, friction: 12, clamp: true },
+        })
+        await advanceUntilIdle()
+        const frames = getFrames(spring)
+        expect(Math.max(...frames)).toBe(1)
+        expect(frames).toEqual([...frames].sort())
+      })
+    })
+    describe('when "bounce" is defined', () => {
+      it('bounces off the goal value', async () => {
+        const spring = new SpringValue(0)
+        spring.start(1, {
+          config: { tension: 180, friction: 12, bounce: 0.5 },
+        })
+        await advanceUntilIdle()
+        const frames = getFrames(spring)
+        expect(Math.max(...frames)).toBe(1)
+        expect(frames).not.toEqual([...frames].sort())
+      })
+    })
+    describe('when "visualDuration" is defined', () => {
+      it('comes to rest in about that time', async () => {
+        const spring = new SpringValue(0)
+        spring.start(100, {
+          config: { visualDuration: 500, bounce: 0.3 },
+        })
+        await advanceUntilIdle()
+        const frames = getFrames(spring)
+        expect(Math.max(...frames)).toBeGreaterThan(100)
+        expect(frames.length * 16.667).toBeGreaterThan(400)
+        expect(frames.length * 16.667).toBeLessThan(700)
+      })
+    })
+    describe('when "bounds" is defined', () => {
+      it('springs to the bound that a decay animation crosses', async () => {
+        const config = { decay: true, velocity: 1 }
+
+        const unbounded = new SpringValue(0)
+        unbounded.start({ config })
+        await advanceUntilIdle()
+
+        const spring = new SpringValue(0)
+        spring.start({ config: { ...config, bounds: { min: 0, max: 100 } } })
+        await advanceUntilIdle()
+
+        const frames = getFrames(spring)
+        expect(spring.get()).toBe(100)
+        expect(Math.max(...frames)).toBeGreaterThan(100)
+
+        // The frames before the crossing are unaffected.
+        const crossing = frames.findIndex(value => value > 100)
+        const unboundedFrames = getFrames(unbounded)
+        frames.slice(0, crossing).forEach((value, i) => {
+          expect(value).toBeCloseTo(unboundedFrames[i], 9)
+        })
+      })
+
+      it('keeps its velocity when crossing a bound', () => {
+        const spring = new SpringValue(0)
+        spring.start({
+          config: { decay: true, velocity: -1, bounds: { min: -100 } },
+        })
+
+        let velocity = -1
+        while (spring.get() > -110) {
+          spring.advance(1)
+          expect(Math.abs(spring.velocity - velocity)).toBeLessThan(0.05)
+          velocity = spring.velocity
+        }
+      })
+
+      it('springs back when starting past a bound', async () => {
+        const spring = new SpringValue(150)
+        spring.start({
+          config: { decay: true, velocity: 0, bounds: { max: 100 } },
+        })
+        await advanceUntilIdle()
+        const frames = getFrames(spring)
+        expect(frames[0]).toBeLessThan(150)
+        expect(spring.get()).toBe(100)
+      })
+
+      it('never ends past a bound when finished early', () => {
+        const spring = new SpringValue(150)
+        spring.start({
+          config: { decay: true, velocity: 0, bounds: { max: 100 } },
+        })
+        spring.advance(16)
+        spring.finish()
+        expect(spring.get()).toBe(100)
+      })
+
+      describe('and "rubberband" is defined', () => {
+        it('resists values set past the bounds', () => {
+          const spring = new SpringValue(0)
+          spring.start({
+            config: {
+              decay: true,
+              bounds: { min: 0, max: 100 },
+              rubberband: 0.5,
+            },
+          })
+          spring.set(150)
+          expect(spring.get()).toBe(125)
+          spring.set(50)
+          expect(spring.get()).toBe(50)
+          spring.set(-10)
+          expect(spring.get()).toBe(-5)
+        })
+
+        it('works with arrays', () => {
+          const spring = new SpringValue<number[]>()
+          spring.start({
+            from: [0, 0],
+            config: { decay: true, bounds: { max: 10 }, rubberband: 0 },
+          })
+          spring.set([5, 20])
+          expect(spring.get()).toEqual([5, 10])
+        })
+      })
+    })
+    describe('when "snap" is defined', () => {
+      it('animates to the snap point nearest to the decay end', async () => {
+        const spring = new SpringValue(0)
+        const promise = spring.start({
+          config: { decay: true, velocity: 0.35, snap: [0, 100, 200, 300] },
+        })
+        expect(spring.goal).toBe(200)
+
+        await advanceUntilIdle()
+        expect(spring.get()).toBe(200)
+        expect(await promise).toMatchObject({ value: 200, finished: true })
+
+        // The spring starts with the velocity of the decay.
+        const still = new SpringValue(0)
+        still.start(200)
+        await advanceUntilIdle()
+        expect(getFrames(spring)[0]).toBeGreaterThan(
+          getFrames(still)[0] + 0.25 * frameLength
+        )
+      })
+
+      it('can pick the snap point with a function', async () => {
+        const snap = jest.fn((end: number) => Math.ceil(end / 100) * 100)
+        const spring = new SpringValue(0)
+        spring.start({
+          config: { decay: 0.99, velocity: 0.5, snap },
+        })
+        const [projectedEnd, velocity] = snap.mock.calls[0] as number[]
+        expect(projectedEnd).toBeCloseTo(50, 9)
+        expect(velocity).toBe(0.5)
+        expect(spring.goal).toBe(100)
+
+        await advanceUntilIdle()
+        expect(spring.get()).toBe(100)
+      })
+
+      it('is ignored when "to" is defined', async () => {
+        const spring = new SpringValue(0)
+        spring.start({
+          to: 50,
+          config: { decay: true, velocity: 0.35, snap: [0, 100, 200, 300] },
+        })
+        expect(spring.goal).toBe(50)
+
+        await advanceUntilIdle()
+        expect(spring.get()).toBe(50)
+
+        // The "snap" config is kept for later updates.
+        spring.start(150)
+        expect(spring.goal).toBe(150)
+
+        await advanceUntilIdle()
+        expect(spring.get()).toBe(150)
+      })
+
+      it('keeps its goal when paused and resumed', async () => {
+        const spring = new SpringValue(0)
+        spring.start({
+          config: { decay: true, velocity: 0.35, snap: [0, 100, 200, 300] },
+        })
+        while (spring.get() < 100) spring.advance(frameLength)
+        spring.pause()
+        spring.resume()
+        expect(spring.goal).toBe(200)
+
+        await advanceUntilIdle()
+        expect(spring.get()).toBe(200)
+      })
+
+      it('keeps its goal when only the config is updated', async () => {
+        const spring = new SpringValue(0)
+        spring.start({
+          config: { decay: true, velocity: 0.35, snap: [0, 100, 200, 300] },
+        })
+        while (spring.get() < 100) spring.advance(frameLength)
+        spring.start({ config: { precision: 0.001 } })
+        expect(spring.goal).toBe(200)
+
+        await advanceUntilIdle()
+        expect(spring.get()).toBe(200)
+      })
+    })
+    describe('when "retarget" is "blend"', () => {
+      const retarget = (config: { duration: number; retarget?: 'blend' }) => {
+        const spring = new SpringValue(0)
+        spring.start(100, { config })
+        for (let i = 0; i < 10; i++) {
+          spring.advance(frameLength)
+        }
+        const velocity = spring.velocity
+        spring.start(-100)
+        spring.advance(1)
+        return [velocity, spring.velocity]
+      }
+
+      it('keeps the velocity when the goal changes', () => {
+        const [before, after] = retarget({ duration: 500, retarget: 'blend' })
+        expect(before).toBeGreaterThan(0)
+        expect(after).toBeCloseTo(before, 2)
+
+        // Without blending, the velocity is reset.
+        const [, reset] = retarget({ duration: 500 })
+        expect(reset).toBeLessThan(0)
+      })
+
+      it('still ends at the goal value on time', async () => {
+        const spring = new SpringValue(0)
+        spring.start(100, {
+          config: { duration: 500, retarget: 'blend', easing: 'easeInOutQuad' },
+        })
+        for (let i = 0; i < 10; i++) {
+          spring.advance(frameLength)
+        }
+        spring.start(-100)
+        spring.advance(499)
+        expect(spring.get()).not.toBe(-100)
+        spring.advance(1)
+        expect(spring.get()).toBe(-100)
+      })
+    })
+    describe('when "wrap" is defined', () => {
+      it('takes the shortest path around the circle', async () => {
+        const spring = new SpringValue(350)
+        spring.start(10, { config: { wrap: 360 } })
+        await advanceUntilIdle()
+        const frames = getFrames(spring)
+        expect(frames.every(value => value >= 0 && value < 360)).toBeTruthy()
+        expect(frames.every(value => value < 30 || value > 330)).toBeTruthy()
+        expect(frames.some(value => value < 10)).toBeTruthy()
+        expect(spring.get()).toBe(10)
+      })
+
+      it('works with duration animations', async () => {
+        const spring = new SpringValue(170)
+        spring.start(-170, {
+          config: { duration: 200, wrap: { min: -180, max: 180 } },
+        })
+        await advanceUntilIdle()
+        const frames = getFrames(spring)
+        expect(frames.every(value => Math.abs(value) >= 170)).toBeTruthy()
+        expect(frames.every(value => value >= -180 && value < 180)).toBeTruthy()
+        expect(spring.get()).toBe(-170)
+      })
+
+      it('works with decay animations', async () => {
+        const spring = new SpringValue(350)
+        spring.start({ config: { decay: true, velocity: 0.1, wrap: 360 } })
+        await advanceUntilIdle()
+        const frames = getFrames(spring)
+        expect(frames.every(value => value >= 0 && value < 360)).toBeTruthy()
+        expect(spring.get()).toBeGreaterThan(30)
+        expect(spring.get()).toBeLessThan(40)
+      })
+
+      it('can wrap some values of an array', async () => {
+        const spring = new SpringValue<number[]>()
+        spring.start({
+          from: [350, 50],
+          to: [10, 60],
+          config: { wrap: [360, null] },
+        })
+        await advanceUntilIdle()
+        const frames = getFrames(spring)
+        expect(frames.every(([hue]) => hue < 30 || hue > 330)).toBeTruthy()
+        expect(frames.every(([, other]) => other >= 50)).toBeTruthy()
+        expect(spring.get()).toEqual([10, 60])
+      })
+
+      it('ends within its range when the goal is not', async () => {
+        const spring = new SpringValue(350)
+        const promise = spring.start(370, { config: { wrap: 360 } })
+        await advanceUntilIdle()
+        expect(spring.get()).toBe(10)
+        expect(await promise).toMatchObject({ value: 10, finished: true })
+
+        spring.start(-340)
+        spring.finish()
+        expect(spring.get()).toBe(20)
+      })
+    })
+    describe('when "solver" is defined', () => {
+      // Fall toward the goal value, and stop there.
+      const gravity: Solver = ({ position, velocity, to, dt }) => {
+        velocity += 0.001 * dt
+        position = Math.min(to, position + velocity * dt)
+        return { position, velocity, finished: position == to }
+      }
+
+      it('uses the solver to animate', async () => {
+        const spring = new SpringValue(0)
+        const onRest = jest.fn()
+        spring.start(100, { config: { solver: gravity }, onRest })
+        await advanceUntilIdle()
+
+        const frames = getFrames(spring)
+        expect(frames[0]).toBeCloseTo(0.001 * frameLength ** 2, 3)
+        expect(frames[frames.length - 1]).toBe(100)
+        expect(onRest.mock.calls[0][0]).toMatchObject({
+          value: 100,
+          finished: true,
+        })
+      })
+
+      it('receives the state of each value', () => {
+        const solver = jest.fn(springSolver)
+        const spring = new SpringValue<number[]>()
+        spring.start({
+          from: [0, 10],
+          to: [20, 30],
+          config: { solver, velocity: [1, 2] },
+        })
+        spring.advance(10)
+        expect(solver).toBeCalledTimes(2)
+        expect(solver.mock.calls[1][0]).toEqual({
+          position: 10,
+          velocity: 2,
+          v0: 2,
+          elapsedTime: 10,
+          from: 10,
+          to: 30,
+          dt: 10,
+        })
+      })
+    })
+    describe('when "coupled" is true', () => {
+      const animate = (config: SpringConfig) => {
+        const spring = new SpringValue<number[]>()
+        spring.start({ from: [0, 0], to: [100, 1], config })
+        const frames: number[][] = []
+        const done: boolean[][] = []
+        while (spring.idle == false) {
+          spring.advance(frameLength)
+          frames.push(spring.get())
+          done.push(spring.animation.values.map(node => node.done))
+        }
+        return { frames, done }
+      }
+
+      it('moves like independent springs', () => {
+        const coupled = animate({ coupled: true, velocity: [0.5, -0.5] })
+        const independent = animate({ velocity: [0.5, -0.5] })
+        coupled.frames.slice(0, 10).forEach(([x, y], i) => {
+          expect(x).toBeCloseTo(independent.frames[i][0], 9)
+          expect(y).toBeCloseTo(independent.frames[i][1], 9)
+        })
+      })
+
+      it('comes to rest all at once', () => {
+        const { done } = animate({ coupled: true, velocity: [0, 0.5] })
+        expect(done.every(([x, y]) => x == y)).toBeTruthy()
+
+        // Independent springs use their own distance to the goal.
+        const independent = animate({ velocity: [0, 0.5] })
+        expect(independent.done.some(([x, y]) => x != y)).toBeTruthy()
+      })
+
+      it('clamps along the line from the goal to the start', () => {
+        const { frames } = animate({
+          coupled: true,
+          clamp: true,
+          velocity: [0, 2],
+        })
+        const axis = [-100, -1].map(n => n / Math.hypot(100, 1))
+        for (const [x, y] of frames) {
+          expect((x - 100) * axis[0] + (y - 1) * axis[1]).toBeGreaterThan(-1e-9)
+        }
+        expect(frames[frames.length - 1]).toEqual([100, 1])
+      })
+    })
+    it('animates springs the same for any frame length', () => {
+      const advanceBy = (frameLength: number) => {
+        const spring = new SpringValue(0)
+        spring.start(100, {
+          config: { tension: 180, friction: 12, bounce: 0.5 },
+        })
+        for (let t = 0; t < 480; t += frameLength) {
+          spring.advance(frameLength)
+        }
+        return spring.get()
+      }
+      expect(advanceBy(8)).toBeCloseTo(advanceBy(16), 6)
+      expect(advanceBy(4)).toBeCloseTo(advanceBy(480), 6)
+    })
   })
 }
 
@@ -575,6 +1046,87 @@ function describeDelayProp() {
   })
 }
 
+function describeSpeedProp() {
+  describe('the "speed" prop', () => {
+    const config = { duration: 1000 }
+
+    it('scales the time of each frame', () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config, speed: 0.5 })
+
+      spring.advance(500)
+      expect(spring.get()).toBe(0.25)
+    })
+    it('never makes the value jump when changed', () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config })
+
+      spring.advance(500)
+      expect(spring.get()).toBe(0.5)
+
+      spring.start({ speed: 2 })
+      expect(spring.get()).toBe(0.5)
+
+      spring.advance(100)
+      expect(spring.get()).toBeCloseTo(0.7)
+    })
+    it('waits like a pause when zero', () => {
+      const onPause = jest.fn()
+      const spring = new SpringValue(0)
+      spring.start(1, { config, speed: 0, onPause })
+
+      spring.advance(500)
+      expect(spring.get()).toBe(0)
+      expect(spring.idle).toBeFalsy()
+      expect(onPause).not.toBeCalled()
+
+      spring.start({ speed: 1 })
+      spring.advance(500)
+      expect(spring.get()).toBe(0.5)
+    })
+    it('can be set with the "speed" property', () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config })
+      spring.speed = 0.5
+      expect(spring.speed).toBe(0.5)
+
+      spring.advance(500)
+      expect(spring.get()).toBe(0.25)
+    })
+    it('is multiplied with the default "speed" prop', () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config, speed: 0.5, default: { speed: 0.5 } })
+      expect(spring.speed).toBe(0.5)
+
+      spring.advance(1000)
+      expect(spring.get()).toBe(0.25)
+    })
+    it('scales the "delay" prop', async () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { delay: 100, speed: 0.5 })
+
+      await advanceByTime(150)
+      expect(spring.goal).toBe(0)
+
+      await advanceByTime(100)
+      expect(spring.goal).toBe(1)
+    })
+    it('scales the remaining time of a pending delay', async () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { delay: 100 })
+
+      await advanceByTime(50)
+      spring.start({ speed: 0.5 })
+
+      await advanceByTime(40)
+      expect(spring.goal).toBe(0)
+
+      await advanceByTime(80)
+      expect(spring.goal).toBe(1)
+    })
+  })
+}
+
 function describeEvents() {
   describe('the "onStart" event', () => {
     it('is called on the first frame', async () => {
@@ -748,6 +1300,86 @@ function describeEvents() {
       })
     })
   })
+  describe('event listeners', () => {
+    it('are called after the event props', async () => {
+      const calls: string[] = []
+      const spring = new SpringValue(0, {
+        onStart: () => calls.push('onStart'),
+        onRest: () => calls.push('onRest'),
+      })
+      spring.on('start', () => calls.push('start'))
+      spring.on('rest', result => calls.push('rest:' + result.finished))
+
+      spring.start(1)
+      await advanceUntilIdle()
+      expect(calls).toEqual(['onStart', 'start', 'onRest', 'rest:true'])
+    })
+    it('are never replaced by props', async () => {
+      const onChange = jest.fn()
+      const spring = new SpringValue(0)
+      spring.on('change', onChange)
+
+      spring.start(1, { default: true, onChange: () => {} })
+      await advanceUntilIdle()
+      spring.start(0, { default: true, onChange: undefined })
+      await advanceUntilIdle()
+
+      expect(onChange).toHaveBeenLastCalledWith(0, spring)
+      expect(onChange.mock.calls.some(([value]) => value == 1)).toBeTruthy()
+    })
+    it('exist for every event', async () => {
+      const calls: string[] = []
+      const spring = new SpringValue(0)
+      const events = ['props', 'delayEnd', 'start', 'pause', 'resume', 'rest']
+      events.forEach(event => {
+        spring.on(event as any, () => calls.push(event))
+      })
+
+      spring.start(1, { delay: 10 })
+      await advanceByTime(50)
+      spring.pause()
+      spring.resume()
+      await advanceUntilIdle()
+
+      expect(calls).toEqual([
+        'props',
+        'delayEnd',
+        'start',
+        'props',
+        'pause',
+        'props',
+        'delayEnd',
+        'resume',
+        'delayEnd',
+        'rest',
+      ])
+    })
+    it('can be called once', async () => {
+      const onRest = jest.fn()
+      const spring = new SpringValue(0)
+      spring.once('rest', onRest)
+
+      spring.start(1)
+      await advanceUntilIdle()
+      spring.start(0)
+      await advanceUntilIdle()
+      expect(onRest).toBeCalledTimes(1)
+    })
+    it('can be removed', async () => {
+      const onStart = jest.fn()
+      const spring = new SpringValue(0)
+      const off = spring.on('start', onStart)
+      spring.on('start', onStart)
+      spring.off('start', onStart)
+
+      spring.start(1)
+      await advanceUntilIdle()
+      expect(onStart).not.toBeCalled()
+
+      // Removing twice is a no-op.
+      off()
+    })
+  })
 }
 
 function describeMethods() {
@@ -766,6 +1398,387 @@ function describeMethods() {
       })
     })
   })
+  describe('"seek" method', () => {
+    const config = { duration: 1000 }
+
+    it('jumps to any point of a duration animation', () => {
+      const onStart = jest.fn()
+      const onChange = jest.fn()
+      const spring = new SpringValue(0)
+      spring.start(1, { config, onStart, onChange })
+
+      spring.seek(250)
+      expect(spring.get()).toBe(0.25)
+      expect(spring.elapsedTime).toBe(250)
+
+      // Seek backwards.
+      spring.seek(100)
+      expect(spring.get()).toBe(0.1)
+
+      expect(onChange).toBeCalledTimes(2)
+      expect(onStart).not.toBeCalled()
+    })
+    it('simulates springs from their start', () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { velocity: 0.01 } })
+      for (let i = 0; i < 30; i++) {
+        spring.advance(frameLength)
+      }
+      const value = spring.get()
+
+      spring.seek(100)
+      expect(spring.get()).toBeLessThan(value)
+
+      spring.seek(30 * frameLength)
+      expect(spring.get()).toBeCloseTo(value, 10)
+    })
+    it('finishes on the next frame when the end is reached', async () => {
+      const onRest = jest.fn()
+      const spring = new SpringValue(0)
+      spring.start(1, { config, onRest })
+
+      spring.seek(2000)
+      expect(spring.get()).toBe(1)
+      expect(onRest).not.toBeCalled()
+
+      await advanceUntilIdle()
+      expect(onRest).toBeCalledTimes(1)
+    })
+  })
+  describe('"reverse" method', () => {
+    const config = { duration: 1000, easing: easings.easeInQuad }
+
+    it('retraces the easing curve of a duration animation', async () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config })
+
+      spring.advance(500)
+      expect(spring.get()).toBe(0.25)
+
+      const promise = spring.reverse()
+      expect(spring.goal).toBe(0)
+
+      spring.advance(250)
+      expect(spring.get()).toBeCloseTo(0.0625)
+
+      await advanceUntilIdle()
+      expect(spring.get()).toBe(0)
+      expect(await promise).toMatchObject({
+        finished: true,
+        reversed: true,
+      })
+    })
+    it('keeps the velocity of a spring', async () => {
+      const onRest = jest.fn()
+      const spring = new SpringValue(0, { onRest })
+      spring.start(1)
+
+      await advanceUntilValue(spring, 0.5)
+      const { velocity } = spring
+
+      spring.reverse()
+      expect(spring.goal).toBe(0)
+      expect(spring.velocity).toBe(velocity)
+
+      await advanceUntilIdle()
+      expect(spring.get()).toBe(0)
+      expect(onRest.mock.calls[0][0]).toMatchObject({
+        value: 0,
+        finished: true,
+        reversed: true,
+      })
+    })
+    it('restores the config once the goal is changed', () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config })
+
+      spring.advance(500)
+      spring.reverse()
+
+      spring.start(1)
+      expect(spring.animation.config.duration).toBe(1000)
+      expect(spring.animation.config.easing).toBe(easings.easeInQuad)
+    })
+  })
+  describe('"progress" property', () => {
+    it('equals the elapsed time of a duration animation', () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 1000 } })
+
+      spring.advance(250)
+      expect(spring.progress).toBe(0.25)
+
+      spring.progress = 0.5
+      expect(spring.get()).toBe(0.5)
+    })
+    it('simulates springs until they come to rest', () => {
+      const spring = new SpringValue(0)
+      spring.start(1)
+
+      spring.advance(100)
+      const value = spring.get()
+      const { progress } = spring
+      expect(progress).toBeGreaterThan(0)
+      expect(progress).toBeLessThan(1)
+
+      // The current state is preserved.
+      expect(spring.get()).toBe(value)
+      expect(spring.elapsedTime).toBe(100)
+
+      spring.progress = 1
+      expect(spring.get()).toBeCloseTo(1)
+    })
+    it('caches the simulated length until the next update', () => {
+      const spring = new SpringValue(0)
+      spring.start(1)
+      spring.advance(100)
+
+      const simulate = jest.spyOn(spring as any, '_simulate')
+      const { progress } = spring
+      spring.advance(100)
+      expect(spring.progress).toBeGreaterThan(progress)
+      expect(simulate).toBeCalledTimes(1)
+
+      spring.start(2)
+      expect(spring.progress).toBeLessThan(progress)
+      expect(simulate).toBeCalledTimes(2)
+    })
+    it('caches the simulated length of a fluid goal until it changes', () => {
+      const target = new SpringValue(1)
+      const spring = new SpringValue(0)
+      spring.start({ to: target })
+      spring.advance(100)
+
+      const simulate = jest.spyOn(spring as any, '_simulate')
+      const { duration } = spring
+      expect(spring.duration).toBe(duration)
+      expect(simulate).toBeCalledTimes(1)
+
+      target.set(10)
+      expect(spring.duration).toBeGreaterThan(0)
+      expect(simulate).toBeCalledTimes(2)
+    })
+  })
+  describe('"snapshot" method', () => {
+    it('can be restored by another value', () => {
+      const spring = new SpringValue(0)
+      spring.start(1, {
+        config: { duration: 1000, easing: easings.easeInQuad },
+      })
+      spring.advance(500)
+
+      const snapshot = JSON.parse(JSON.stringify(spring.snapshot()))
+      expect(snapshot).toMatchObject({
+        value: 0.25,
+        goal: 1,
+        from: 0,
+        elapsedTime: 500,
+        config: { duration: 1000, easing: 'easeInQuad' },
+        paused: false,
+        idle: false,
+      })
+
+      const copy = new SpringValue(0)
+      copy.restore(snapshot)
+      expect(copy.get()).toBe(0.25)
+
+      spring.advance(250)
+      copy.advance(250)
+      expect(copy.get()).toBe(spring.get())
+    })
+    it('keeps the velocity of a spring', () => {
+      const spring = new SpringValue(0)
+      spring.start(1)
+      for (let i = 0; i < 10; i++) {
+        spring.advance(frameLength)
+      }
+
+      const copy = new SpringValue(0)
+      copy.restore(spring.snapshot())
+      expect(copy.velocity).toBe(spring.velocity)
+
+      spring.advance(frameLength)
+      copy.advance(frameLength)
+      expect(copy.get()).toBeCloseTo(spring.get(), 10)
+    })
+    it('can restore a paused animation', () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 1000 } })
+      spring.advance(500)
+      spring.pause()
+
+      const copy = new SpringValue(0)
+      copy.restore(spring.snapshot())
+      expect(copy.isAnimating).toBeTruthy()
+      expect(copy.isPaused).toBeTruthy()
+      expect(copy.get()).toBe(0.5)
+    })
+    it('keeps the custom functions of its config', () => {
+      const easing = (t: number) => t * t * t
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 1000, easing } })
+      spring.advance(500)
+
+      const snapshot = spring.snapshot()
+      expect(snapshot.config.easing).toBe(easing)
+
+      const copy = new SpringValue(0)
+      copy.restore(snapshot)
+      spring.advance(250)
+      copy.advance(250)
+      expect(copy.get()).toBe(spring.get())
+    })
+    it('keeps the momentum of a redirected animation', () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 1000, retarget: 'blend' } })
+      spring.advance(500)
+      spring.start(0)
+      spring.advance(100)
+
+      const copy = new SpringValue(0)
+      copy.restore(JSON.parse(JSON.stringify(spring.snapshot())))
+      spring.advance(100)
+      copy.advance(100)
+      expect(copy.get()).toBeCloseTo(spring.get(), 10)
+    })
+    it('is not deferred by default props', () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 1000 } })
+      spring.advance(500)
+
+      const copy = new SpringValue(0)
+      copy.start({ default: { pause: true } })
+      copy.restore(spring.snapshot())
+      expect(copy.get()).toBe(0.5)
+      expect(copy.isPaused).toBeTruthy()
+
+      copy.start({ default: { pause: false } })
+      copy.advance(250)
+      expect(copy.get()).toBe(0.75)
+    })
+    it('can restore an idle value', () => {
+      const copy = new SpringValue(0)
+      copy.restore(new SpringValue(2).snapshot())
+      expect(copy.get()).toBe(2)
+      expect(copy.idle).toBeTruthy()
+    })
+  })
+  describe('"frames" method', () => {
+    it('yields every frame until the value comes to rest', async () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 10 * frameLength } })
+
+      const values: number[] = []
+      const done = (async () => {
+        for await (const value of spring.frames({ backpressure: 'buffer' })) {
+          values.push(value)
+        }
+      })()
+
+      await advanceUntilIdle()
+      await done
+      expect(values).toEqual(getFrames(spring))
+      expect(values[values.length - 1]).toBe(1)
+    })
+    it('only keeps the latest value by default', async () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 10 * frameLength } })
+
+      const frames = spring.frames()
+      mockRaf.step()
+      mockRaf.step()
+      mockRaf.step()
+
+      const value = spring.get()
+      expect(value).toBeGreaterThan(0)
+      expect(await frames.next()).toEqual({ value, done: false })
+
+      mockRaf.step()
+      expect(await frames.next()).toEqual({ value: spring.get(), done: false })
+    })
+    it('ends when the signal is aborted', async () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 10 * frameLength } })
+
+      const controller = new AbortController()
+      const frames = spring.frames({
+        signal: controller.signal,
+        backpressure: 'buffer',
+      })
+      mockRaf.step()
+      mockRaf.step()
+
+      controller.abort()
+      expect(await frames.next()).toEqual({ value: undefined, done: true })
+      expect(spring.idle).toBeFalsy()
+    })
+    it('waits for an animation that starts later', async () => {
+      const spring = new SpringValue(0)
+      const values: number[] = []
+      const done = (async () => {
+        for await (const value of spring.frames({ backpressure: 'buffer' })) {
+          values.push(value)
+        }
+      })()
+
+      await advanceByTime(100)
+      spring.start(1, { delay: 100, config: { duration: 5 * frameLength } })
+      await advanceByTime(50)
+
+      await advanceUntilIdle()
+      await done
+      expect(values.length).toBeGreaterThan(0)
+      expect(values[values.length - 1]).toBe(1)
+      expect(spring['_listeners'].has('change')).toBeFalsy()
+    })
+    it('waits for an async animation to finish', async () => {
+      const spring = new SpringValue(0)
+      spring.start({
+        to: async next => {
+          await next({ to: 1, config: { duration: 2 * frameLength } })
+          await next({
+            to: 2,
+            delay: 100,
+            config: { duration: 2 * frameLength },
+          })
+        },
+      })
+      const values: number[] = []
+      const done = (async () => {
+        for await (const value of spring.frames({ backpressure: 'buffer' })) {
+          values.push(value)
+        }
+      })()
+
+      await advanceUntilIdle()
+      await done
+      expect(values[values.length - 1]).toBe(2)
+    })
+    it('ends when stopped before anything changed', async () => {
+      const spring = new SpringValue(0)
+      spring.start(1)
+
+      const frames = spring.frames()
+      spring.stop()
+      expect(await frames.next()).toEqual({ value: undefined, done: true })
+      expect(spring['_listeners'].has('change')).toBeFalsy()
+      expect(spring['_children'].size).toBe(0)
+    })
+    it('stops listening when the loop is broken', async () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 10 * frameLength } })
+
+      const done = (async () => {
+        for await (const value of spring.frames()) {
+          if (value > 0.5) break
+        }
+      })()
+
+      await advanceUntil(() => spring.get() > 0.5)
+      await done
+      expect(spring['_listeners'].has('change')).toBeFalsy()
+    })
+  })
 }
 
 /** The minimum requirements for testing a dynamic target */
@@ -921,4 +1934,171 @@ function describeGlobals() {
       expect(onRest).toBeCalledTimes(1)
     })
   })
+  describe('"frameLoop" prop', () => {
+    it('moves pending delays onto a new default frameloop', () => {
+      const firstLoop = new ManualFrameLoop()
+      const secondLoop = new ManualFrameLoop()
+
+      const spring = new SpringValue(0)
+      spring.start({ default: { frameLoop: firstLoop } })
+      spring.start(1, { delay: 100, config: { duration: 1000 } })
+
+      spring.start({ default: { frameLoop: secondLoop } })
+      firstLoop.step(200)
+      expect(spring.idle).toBeTruthy()
+
+      secondLoop.step(100)
+      expect(spring.idle).toBeFalsy()
+
+      secondLoop.runUntilIdle()
+      expect(spring.get()).toBe(1)
+    })
+  })
+  describe('"frameLoop" global', () => {
+    afterEach(resetGlobals)
+    it('can be a "ManualFrameLoop" for repeatable frames', () => {
+      const run = () => {
+        const frameLoop = new ManualFrameLoop()
+        Globals.assign({ frameLoop })
+
+        const frames: number[] = []
+        const spring = new SpringValue(0)
+        spring.start(1, { onChange: value => frames.push(value) })
+
+        frameLoop.runUntilIdle()
+        return frames
+      }
+      const frames = run()
+      expect(frames.length).toBeGreaterThan(10)
+      expect(run()).toEqual(frames)
+    })
+    it('can follow an external clock', () => {
+      let time = 0
+      const frameLoop = new FrameLoop(() => {}, {
+        now: () => time,
+        catchUp: 'simulate',
+        onRewind(ms, animations) {
+          for (const animation of animations) {
+            if (animation instanceof SpringValue) {
+              animation.seek(Math.max(0, animation.elapsedTime - ms))
+            }
+          }
+        },
+      })
+      Globals.assign({ frameLoop })
+
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 1000 } })
+
+      time += 500
+      frameLoop.advance()
+      expect(spring.get()).toBe(0.5)
+
+      // Paused
+      frameLoop.advance()
+      expect(spring.get()).toBe(0.5)
+
+      time -= 250
+      frameLoop.advance()
+      expect(spring.get()).toBe(0.25)
+
+      time += 50
+      frameLoop.advance()
+      expect(spring.get()).toBe(0.3)
+    })
+    it('writes updates while an external clock is paused', () => {
+      const time = 0
+      const frameLoop = new FrameLoop(() => {}, { now: () => time })
+      Globals.assign({ frameLoop })
+
+      // Write at the end of each frame, like an animated component.
+      let written: number | undefined
+      const spring = new SpringValue(0)
+      spring.addChild({
+        onParentChange(event) {
+          if (event.type == 'change') {
+            frameLoop.onFrame(() => {
+              frameLoop.onWrite(() => (written = spring.get()))
+            })
+          }
+        },
+      })
+
+      spring.set(1)
+      frameLoop.advance()
+      expect(written).toBe(1)
+    })
+  })
+  describe('"reducedMotion" global', () => {
+    afterEach(resetGlobals)
+
+    const createSpring = (key: string) => {
+      const spring = new SpringValue(0)
+      spring.key = key
+      return spring
+    }
+
+    it('makes most keys immediate', () => {
+      Globals.assign({ reducedMotion: 'always' })
+
+      const spring = createSpring('x')
+      spring.start(1)
+
+      mockRaf.step()
+      expect(spring.get()).toBe(1)
+      expect(spring.idle).toBeTruthy()
+    })
+
+    it('animates opacity briefly', () => {
+      Globals.assign({ reducedMotion: 'always' })
+
+      const spring = createSpring('opacity')
+      spring.start(1)
+
+      spring.advance(75)
+      expect(spring.get()).toBe(0.5)
+
+      // Without reduced motion, the original config is used again.
+      Globals.assign({ reducedMotion: 'never' })
+      spring.start(0, { config: { duration: 1000 } })
+      spring.advance(75)
+      expect(spring.animation.config.duration).toBe(1000)
+    })
+
+    it('can be mapped per key', () => {
+      Globals.assign({
+        reducedMotion: 'always',
+        reduceMotion: key => (key == 'x' ? 50 : false),
+      })
+
+      const x = createSpring('x')
+      x.start(1, { config: { duration: 1000 } })
+      x.advance(25)
+      expect(x.get()).toBe(0.5)
+
+      const y = createSpring('y')
+      y.start(1, { config: { duration: 1000 } })
+      y.advance(250)
+      expect(y.get()).toBe(0.25)
+    })
+
+    it('is ignored when "never"', () => {
+      const spring = createSpring('x')
+      spring.start(1, { config: { duration: 1000 } })
+      spring.advance(500)
+      expect(spring.get()).toBe(0.5)
+    })
+  })
+  describe('"speed" global', () => {
+    afterEach(resetGlobals)
+    it('scales the time of each frame', () => {
+      Globals.assign({ speed: 2 })
+
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 1000 } })
+
+      spring.advance(250)
+      expect(spring.get()).toBe(0.5)
+    })
+  })
 }
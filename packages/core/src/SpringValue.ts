@@ -9,6 +9,7 @@ import {
   getFluidValue,
   getFluidConfig,
   isAnimatedString,
+  isReducedMotion,
   FluidValue,
   Globals as G,
 } from '@react-spring/shared'
@@ -24,8 +25,19 @@ import {
 import { Lookup } from '@react-spring/types'
 
 import { Animation } from './Animation'
-import { mergeConfig } from './AnimationConfig'
-import { scheduleProps } from './scheduleProps'
+import {
+  AnimationConfig,
+  mergeConfig,
+  serializeConfig,
+} from './AnimationConfig'
+import {
+  getSolver,
+  solveCoupled,
+  durationSolver,
+  decaySolver,
+  SolverState,
+} from './solvers'
+import { scheduleProps, getSpeed } from './scheduleProps'
 import { runAsync, RunAsyncState, RunAsyncProps, stopAsync } from './runAsync'
 import {
   callProp,
@@ -36,8 +48,11 @@ import {
   getDefaultProps,
   isAsyncTo,
   resolveProp,
+  hasRelativeValue,
+  resolveRelativeValue,
 } from './helpers'
 import { FrameValue, isFrameValue } from './FrameValue'
+import { iterateFrames } from './frames'
 import {
   isAnimating,
   isPaused,
@@ -48,10 +63,16 @@ import {
 import { AnimationRange, AnimationResolver } from './types/internal'
 import {
   AsyncResult,
+  AnimationResult,
   OnRest,
   SpringUpdate,
   VelocityProp,
   SpringProps,
+  SpringConfig,
+  SpringSnapshot,
+  FramesOptions,
+  SpringEvents,
+  RelativeValue,
 } from './types'
 import {
   getCombinedResult,
@@ -62,11 +83,17 @@ import {
 
 declare const console: any
 
+/** The length of each step when seeking */
+const frameLength = 1000 / 60
+
+/** Simulations stop after this many milliseconds */
+const maxDuration = 60000
+
 /**
  * Only numbers, strings, and arrays of numbers/strings are supported.
  * Non-animatable strings are also supported.
  */
-export class SpringValue<T = any> extends FrameValue<T> {
+export class SpringValue<T = any> extends FrameValue<T, SpringEvents<T>> {
   /** The property name used when `to` or `from` is an object. Useful when debugging too. */
   key?: string
 
@@ -142,8 +169,219 @@ export class SpringValue<T = any> extends FrameValue<T> {
     return isPaused(this)
   }
 
-  /** Advance the current animation by a number of milliseconds */
+  /**
+   * The value of the last `speed` prop, which scales the passage of time
+   * for every animation and delay. The default `speed` prop and
+   * `Globals.speed` are multiplied with it.
+   *
+   * Setting this updates the `speed` prop.
+   */
+  get speed() {
+    return this._state.speed ?? 1
+  }
+
+  set speed(speed: number) {
+    this._update({ speed })
+  }
+
+  /**
+   * The frameloop that advances this value, which is set by
+   * the default `frameLoop` prop.
+   */
+  get frameLoop() {
+    return this._defaultProps.frameLoop || G.frameLoop
+  }
+
+  /**
+   * Advance the current animation by a number of milliseconds,
+   * which are scaled by the `speed` of this value.
+   */
   advance(dt: number) {
+    // Time stands still when the speed is zero.
+    dt *= getSpeed(this._state, this._defaultProps)
+    if (!(dt > 0)) return
+
+    const { idle, changed } = this._advance(dt)
+    if (idle) {
+      this.finish()
+    } else if (changed) {
+      this._onChange(this.get())
+    }
+  }
+
+  /** The milliseconds of the current animation that have passed. */
+  get elapsedTime() {
+    return getElapsedTime(this.animation)
+  }
+
+  /**
+   * The progress of the current animation, between 0 and 1.
+   *
+   * Springs and decay animations are simulated until they come to rest,
+   * since their length is not known otherwise.
+   */
+  get progress() {
+    const duration = this.duration
+    return duration > 0 ? Math.min(1, this.elapsedTime / duration) : 1
+  }
+
+  set progress(progress: number) {
+    this.seek(progress * this.duration)
+  }
+
+  /**
+   * Jump to a point in time (in milliseconds) of the current animation,
+   * which is simulated again from its start. Seeking backwards is allowed.
+   *
+   * The `onChange` prop is called, but the `onStart` and `onRest` props
+   * are not. Once the end is reached, the next frame finishes the animation.
+   */
+  seek(time: number) {
+    if (hasAnimated(this) && this._simulate(time)) {
+      G.batchedUpdates(() => {
+        this._onChange(this.get(), true)
+      })
+    }
+    return this
+  }
+
+  /**
+   * Get the state of this value, which the `restore` method of any
+   * `SpringValue` object can continue from. It's JSON-safe unless
+   * the config has custom functions.
+   */
+  snapshot(): SpringSnapshot<T> {
+    const anim = this.animation
+    const value = this.get()
+    const animated = hasAnimated(this)
+    return {
+      value,
+      goal: animated ? computeGoal(anim.to) : value,
+      from: animated ? (getOrigin(this) as any) : value,
+      velocity: this.velocity as number | number[],
+      fromValues: animated ? anim.fromValues.slice() : [],
+      fromVelocities: animated ? anim.fromVelocities.map(v => v ?? null) : [],
+      config: serializeConfig(anim.config),
+      elapsedTime: this.elapsedTime,
+      paused: isPaused(this),
+      idle: !isAnimating(this),
+    }
+  }
+
+  /**
+   * Continue the animation of a snapshot, which is simulated from
+   * its start before the saved value and velocity are applied.
+   *
+   * Idle snapshots only set the value and config.
+   */
+  restore(snapshot: SpringSnapshot<T>) {
+    const { value, goal, from, config, elapsedTime } = snapshot
+    this.stop()
+
+    if (snapshot.idle) {
+      mergeConfig(this.animation.config, config)
+      this.set(value)
+    } else {
+      if (isPaused(this)) {
+        setPausedBit(this, false)
+      }
+
+      // Merge the update now, so no delay or default prop can defer it.
+      const props = {
+        from,
+        to: goal,
+        config,
+        immediate: false,
+        callId: ++this._lastCallId,
+        cancel: false,
+      } as RunAsyncProps<SpringValue<T>>
+      this._merge(this._prepareNode(props), props, noop)
+
+      const anim = this.animation
+      const values = toArray(value)
+      const velocities = toArray(snapshot.velocity)
+
+      // Start from where the saved animation started.
+      if (snapshot.fromValues.length == anim.values.length) {
+        anim.fromValues = snapshot.fromValues
+        anim.fromVelocities = snapshot.fromVelocities
+      }
+
+      this._simulate(elapsedTime)
+      anim.values.forEach((node, i) => {
+        // Animated strings are simulated only.
+        if (is.num(values[i])) {
+          node.setValue(values[i])
+        }
+        node.lastVelocity = velocities[i]
+      })
+      G.batchedUpdates(() => {
+        this._onChange(this.get(), true)
+      })
+    }
+
+    // The default "pause" prop is respected too.
+    if (snapshot.paused || matchProp(this._defaultProps.pause, this.key)) {
+      this.pause()
+    }
+    return this
+  }
+
+  /**
+   * Iterate the value after each frame in which it changed, until
+   * an animation has run and stopped, or until the `signal` is aborted.
+   *
+   * Animations that start later (like after a `delay`) are waited for.
+   */
+  frames(options?: FramesOptions) {
+    const state = this._state
+    return iterateFrames<T>((push, end) => {
+      // Async animations are checked again once finished.
+      let waiting: Promise<any> | undefined
+      const check = () => {
+        if (state.asyncTo) {
+          if (state.promise && state.promise !== waiting) {
+            waiting = state.promise
+            waiting.then(check, check)
+          }
+        } else if (!isAnimating(this)) {
+          end()
+        }
+      }
+      let scheduled = false
+      const flush = () => {
+        if (scheduled) {
+          scheduled = false
+          push(this.get())
+        }
+      }
+      const unsubscribeChange = this.on('change', () => {
+        if (!scheduled) {
+          scheduled = true
+          this.frameLoop.onFrame(flush)
+        }
+      })
+      // Stopping an animation emits no "rest" event when nothing changed,
+      // so its "idle" event is observed instead.
+      const observer: FrameValue.Observer = {
+        onParentChange: event => {
+          if (event.type == 'idle') {
+            flush()
+            check()
+          }
+        },
+      }
+      this.addChild(observer)
+      return () => {
+        scheduled = false
+        unsubscribeChange()
+        this.removeChild(observer)
+      }
+    }, options)
+  }
+
+  /** Advance each value, and report if any changed or if all are done. */
+  protected _advance(dt: number) {
     let idle = true
     let changed = false
 
@@ -158,6 +396,37 @@ export class SpringValue<T = any> extends FrameValue<T> {
       }
     }
 
+    const solver = getSolver(config)
+
+    /** When true, duration animations start with the current velocity. */
+    const isBlended = solver == durationSolver && config.retarget == 'blend'
+
+    /** When true, the values of an array are solved as one vector. */
+    const isCoupled = !!config.coupled && anim.values.length > 1
+
+    const setPosition = (i: number, position: number, finished: boolean) => {
+      const node = anim.values[i]
+
+      // Parent springs must finish before their children can.
+      if (payload && !payload[i].done) {
+        finished = false
+      }
+
+      if (finished) {
+        node.done = true
+      } else {
+        idle = false
+      }
+
+      if (node.setValue(position, config.round)) {
+        changed = true
+      }
+    }
+
+    /** The index of each value being solved */
+    const indices: number[] = []
+    const states: SolverState[] = []
+
     anim.values.forEach((node, i) => {
       if (node.done) return
 
@@ -169,143 +438,150 @@ export class SpringValue<T = any> extends FrameValue<T> {
           ? payload[i].lastPosition
           : toValues![i]
 
-      let finished = anim.immediate
-      let position = to
+      if (anim.immediate) {
+        return setPosition(i, to, true)
+      }
 
-      if (!finished) {
-        position = node.lastPosition
+      // Loose springs never move.
+      if (config.tension <= 0) {
+        node.done = true
+        return
+      }
 
-        // Loose springs never move.
-        if (config.tension <= 0) {
-          node.done = true
-          return
-        }
+      const elapsed = (node.elapsedTime += dt)
+      let from = anim.fromValues[i]
+      let position = node.lastPosition
 
-        const elapsed = (node.elapsedTime += dt)
-        const from = anim.fromValues[i]
+      // Circular values take the shortest path to their goal.
+      const circumference = getCircumference(config, i)
+      if (circumference > 0) {
+        from = to + getWrappedDelta(from - to, circumference)
+        position = to + getWrappedDelta(position - to, circumference)
+      }
 
-        const v0 =
-          node.v0 != null
-            ? node.v0
-            : (node.v0 = is.arr(config.velocity)
+      const v0 =
+        node.v0 != null
+          ? node.v0
+          : (node.v0 =
+              // Blended duration animations keep their current velocity.
+              isBlended && node.lastVelocity != null
+                ? node.lastVelocity
+                : is.arr(config.velocity)
                 ? config.velocity[i]
                 : config.velocity)
 
-        let velocity: number
-
-        // Duration easing
-        if (!is.und(config.duration)) {
-          let p = config.progress || 0
-          if (config.duration <= 0) p = 1
-          else p += (1 - p) * Math.min(1, elapsed / config.duration)
-
-          position = from + config.easing(p) * (to - from)
-          velocity = (position - node.lastPosition) / dt
-
-          finished = p == 1
-        }
-
-        // Decay easing
-        else if (config.decay) {
-          const decay = config.decay === true ? 0.998 : config.decay
-          const e = Math.exp(-(1 - decay) * elapsed)
-
-          position = from + (v0 / (1 - decay)) * (1 - e)
-          finished = Math.abs(node.lastPosition - position) < 0.1
-
-          // derivative of position
-          velocity = v0 * e
-        }
-
-        // Spring easing
-        else {
-          velocity = node.lastVelocity == null ? v0 : node.lastVelocity
-
-          /** The smallest distance from a value before being treated like said value. */
-          const precision =
-            config.precision ||
-            (from == to ? 0.005 : Math.min(1, Math.abs(to - from) * 0.001))
-
-          /** The velocity at which movement is essentially none */
-          const restVelocity = config.restVelocity || precision / 10
-
-          // Bouncing is opt-in (not to be confused with overshooting)
-          const bounceFactor = config.clamp ? 0 : config.bounce!
-          const canBounce = !is.und(bounceFactor)
+      indices.push(i)
+      states.push({
+        position,
+        velocity: node.lastVelocity == null ? v0 : node.lastVelocity,
+        v0,
+        elapsedTime: elapsed,
+        from,
+        to,
+        dt,
+      })
+    })
 
-          /** When `true`, the value is increasing over time */
-          const isGrowing = from == to ? node.v0 > 0 : from < to
+    const results = isCoupled
+      ? solveCoupled(states, config, solver)
+      : states.map(state => solver(state, config))
 
-          /** When `true`, the velocity is considered moving */
-          let isMoving!: boolean
+    results.forEach((result, j) => {
+      const i = indices[j]
+      let { position, finished } = result
 
-          /** When `true`, the velocity is being deflected or clamped */
-          let isBouncing = false
+      anim.values[i].lastVelocity = result.velocity
 
-          const step = 1 // 1ms
-          const numSteps = Math.ceil(dt / step)
-          for (let n = 0; n < numSteps; ++n) {
-            isMoving = Math.abs(velocity) > restVelocity
+      if (Number.isNaN(position)) {
+        console.warn(`Got NaN while animating:`, this)
+        finished = true
+      }
 
-            if (!isMoving) {
-              finished = Math.abs(to - position) <= precision
-              if (finished) {
-                break
-              }
-            }
+      // Keep circular values within their range.
+      setPosition(i, wrapPosition(position, config, i), finished)
+    })
 
-            if (canBounce) {
-              isBouncing = position == to || position > to == isGrowing
+    return { idle, changed }
+  }
 
-              // Invert the velocity with a magnitude, or clamp it.
-              if (isBouncing) {
-                velocity = -velocity * bounceFactor
-                position = to
-              }
-            }
+  /**
+   * Simulate the current animation from its start, until the given time
+   * or until it comes to rest. No events are emitted.
+   *
+   * Returns true when the current value changed.
+   */
+  protected _simulate(time: number) {
+    const anim = this.animation
+    const { round } = anim.config
 
-            const springForce = -config.tension * 0.000001 * (position - to)
-            const dampingForce = -config.friction * 0.001 * velocity
-            const acceleration = (springForce + dampingForce) / config.mass // pt/ms^2
+    let changed = false
+    anim.values.forEach((node, i) => {
+      node.done = false
+      node.elapsedTime = 0
+      node.v0 = null
+      node.lastVelocity = anim.fromVelocities[i]
+      if (node.setValue(anim.fromValues[i], round)) {
+        changed = true
+      }
+    })
 
-            velocity = velocity + acceleration * step // pt/ms
-            position = position + velocity * step
-          }
-        }
+    // Duration animations are solved exactly in one step.
+    const step = getSolver(anim.config) == durationSolver ? time : frameLength
 
-        node.lastVelocity = velocity
+    while (time > 0) {
+      const dt = Math.min(time, step)
+      time -= dt
 
-        if (Number.isNaN(position)) {
-          console.warn(`Got NaN while animating:`, this)
-          finished = true
-        }
+      const result = this._advance(dt)
+      if (result.changed) {
+        changed = true
       }
+      if (result.idle) break
+    }
+    return changed
+  }
 
-      // Parent springs must finish before their children can.
-      if (payload && !payload[i].done) {
-        finished = false
-      }
+  /**
+   * The length of the current animation (in milliseconds), which is
+   * simulated until it comes to rest if needed.
+   */
+  get duration() {
+    const anim = this.animation
+    const { config } = anim
+    if (!hasAnimated(this)) {
+      return 0
+    }
+    if (getSolver(config) == durationSolver) {
+      return config.duration!
+    }
 
-      if (finished) {
-        node.done = true
-      } else {
-        idle = false
-      }
+    // Fluid goals may change at any time, so the goal is part of the key.
+    const goal = computeGoal(anim.to)
+    const key = anim.durationKey
+    if (!key || key[0] !== config || !isEqual(key[1], goal)) {
+      // Simulate from the start, then restore the current state.
+      const nodes = anim.values.map(node => ({ ...node }))
 
-      if (node.setValue(position, config.round)) {
-        changed = true
-      }
-    })
+      this._simulate(maxDuration)
+      anim.duration = getElapsedTime(anim)
+      anim.durationKey = [config, goal]
 
-    if (idle) {
-      this.finish()
-    } else if (changed) {
-      this._onChange(this.get())
+      anim.values.forEach((node, i) => Object.assign(node, nodes[i]))
     }
+    return anim.duration!
   }
 
-  /** Set the current value, while stopping the current animation */
+  /**
+   * Set the current value, while stopping the current animation.
+   *
+   * Values past the `bounds` of the `config` are resisted when its
+   * `rubberband` factor is defined.
+   */
   set(value: T | FluidValue<T>) {
+    const { bounds, rubberband } = this.animation.config
+    if (bounds && !is.und(rubberband)) {
+      value = applyBounds(value, bounds, rubberband)
+    }
     this._focus(value)
     G.batchedUpdates(() => {
       this._set(value)
@@ -335,9 +611,14 @@ export class SpringValue<T = any> extends FrameValue<T> {
         // Ensure the "onStart" and "onRest" props are called.
         this._onStart()
 
-        // Decay animations have an implicit goal.
-        if (!config.decay) {
-          this._set(to, true)
+        // Decay animations have an implicit goal, unless snapping.
+        // Circular values end within their range.
+        if (!config.decay || config.snap) {
+          this._set(wrapGoal(getFluidValue(to) as T, config), true)
+        }
+        // Bounded decay animations never end past their bounds.
+        else if (config.bounds) {
+          this._set(applyBounds(this.get(), config.bounds, 0))
         }
 
         // Exit the frameloop.
@@ -347,6 +628,52 @@ export class SpringValue<T = any> extends FrameValue<T> {
     return this
   }
 
+  /**
+   * Play the current animation backwards from the current value,
+   * until the value where it started.
+   *
+   * Duration animations retrace their easing curve, while springs keep
+   * their current velocity. The `onRest` result has `reversed: true`.
+   */
+  reverse(): AsyncResult<SpringValue<T>> {
+    const anim = this.animation
+    if (!hasAnimated(this) || anim.immediate) {
+      return Promise.resolve(getNoopResult(this))
+    }
+
+    const { config } = anim
+    let reversal: SpringConfig | undefined
+
+    const solver = getSolver(config)
+    if (solver == durationSolver) {
+      const { easing, duration = 0 } = config
+      const p0 = config.progress || 0
+      const p =
+        duration > 0
+          ? p0 + (1 - p0) * Math.min(1, this.elapsedTime / duration)
+          : 1
+
+      // Retrace the easing curve from its current progress.
+      const start = easing(p) || 1
+      reversal = {
+        duration: p * duration,
+        progress: 0,
+        retarget: 'restart',
+        easing: t => 1 - easing(p * (1 - t)) / start,
+      }
+    }
+    // Decay animations have no goal to reverse from, so use a spring.
+    else if (solver == decaySolver) {
+      reversal = { decay: false }
+    }
+
+    return this._update({
+      to: getOrigin(this),
+      config: reversal,
+      reversed: true,
+    } as SpringProps<T>)
+  }
+
   /** Push props into the pending queue. */
   update(props: SpringUpdate<T>) {
     const queue = this.queue || (this.queue = [])
@@ -365,12 +692,12 @@ export class SpringValue<T = any> extends FrameValue<T> {
 
   start(props: SpringUpdate<T>): AsyncResult<this>
 
-  start(to: T, props?: SpringProps<T>): AsyncResult<this>
+  start(to: T | RelativeValue<T>, props?: SpringProps<T>): AsyncResult<this>
 
-  start(to?: T | SpringUpdate<T>, arg2?: SpringProps<T>) {
+  start(to?: T | RelativeValue<T> | SpringUpdate<T>, arg2?: SpringProps<T>) {
     let queue: SpringUpdate<T>[]
     if (!is.und(to)) {
-      queue = [is.obj(to) ? to : { ...arg2, to }]
+      queue = [is.obj(to) ? to : ({ ...arg2, to } as SpringUpdate<T>)]
     } else {
       queue = this.queue || []
       this.queue = []
@@ -443,8 +770,11 @@ export class SpringValue<T = any> extends FrameValue<T> {
 
     // Before ever animating, this method ensures an `Animated` node
     // exists and keeps its value in sync with the "from" prop.
+    // Relative values are ignored until merged.
     if (!hasAnimated(this)) {
       if (props.reverse) [to, from] = [from, to]
+      if (hasRelativeValue(to)) to = undefined
+      if (hasRelativeValue(from)) from = undefined
 
       from = getFluidValue(from)
       if (!is.und(from)) {
@@ -471,6 +801,7 @@ export class SpringValue<T = any> extends FrameValue<T> {
     if (onProps) {
       onProps(props, this)
     }
+    this._fire('props', props, this)
 
     // Ensure the initial value can be accessed by animated components.
     const range = this._prepareNode(props)
@@ -483,7 +814,8 @@ export class SpringValue<T = any> extends FrameValue<T> {
     }
 
     const state = this._state
-    return scheduleProps(++this._lastCallId, {
+    const prevLoop = this.frameLoop
+    const result = scheduleProps(++this._lastCallId, {
       key: this.key,
       props,
       defaultProps,
@@ -494,6 +826,7 @@ export class SpringValue<T = any> extends FrameValue<T> {
             setPausedBit(this, true)
             flushCalls(state.pauseQueue)
             callProp(this.animation.onPause, this)
+            this._fire('pause', this)
           }
         },
         resume: () => {
@@ -504,11 +837,23 @@ export class SpringValue<T = any> extends FrameValue<T> {
             }
             flushCalls(state.resumeQueue)
             callProp(this.animation.onResume, this)
+            this._fire('resume', this)
           }
         },
         start: this._merge.bind(this, range),
       },
-    }).then(result => {
+    })
+
+    // The default `frameLoop` was merged by `scheduleProps`, so an active
+    // animation is moved onto the new frameloop.
+    if (this.frameLoop !== prevLoop) {
+      prevLoop.stop(this)
+      if (!this.idle) {
+        this.frameLoop.start(this)
+      }
+    }
+
+    return result.then(result => {
       if (props.loop && result.finished && !(isLoop && result.noop)) {
         const nextProps = createLoopUpdate(props)
         if (nextProps) {
@@ -535,6 +880,9 @@ export class SpringValue<T = any> extends FrameValue<T> {
     const { key, animation: anim } = this
     const defaultProps = this._defaultProps
 
+    // Any update may change the length of the animation.
+    anim.duration = anim.durationKey = undefined
+
     /** The "to" prop is defined. */
     const hasToProp = !is.und(range.to)
 
@@ -560,6 +908,7 @@ export class SpringValue<T = any> extends FrameValue<T> {
     if (onDelayEnd) {
       onDelayEnd(props, this)
     }
+    this._fire('delayEnd', props, this)
 
     if (props.default) {
       mergeDefaultProps(defaultProps, props)
@@ -568,6 +917,14 @@ export class SpringValue<T = any> extends FrameValue<T> {
     const { to: prevTo, from: prevFrom } = anim
     let { to = prevTo, from = prevFrom } = range
 
+    // Relative values (like "+=100") are resolved against the goal value
+    // at this time, so queued and delayed updates compose correctly.
+    if (hasRelativeValue(to) || hasRelativeValue(from)) {
+      const base = this.goal
+      to = resolveRelativeValue(to, base)
+      from = resolveRelativeValue(from, base)
+    }
+
     // Focus the "from" value if changing without a "to" value.
     // For default updates, do this only if no "to" value exists.
     if (hasFromProp && !hasToProp && (!props.default || is.und(to))) {
@@ -585,14 +942,14 @@ export class SpringValue<T = any> extends FrameValue<T> {
     }
 
     /** The "to" value is changing. */
-    const hasToChanged = !isEqual(to, prevTo)
+    let hasToChanged = !isEqual(to, prevTo)
 
     if (hasToChanged) {
       this._focus(to)
     }
 
     // Both "from" and "to" can use a fluid config (thanks to http://npmjs.org/fluids).
-    const toConfig = getFluidConfig(to)
+    let toConfig = getFluidConfig(to)
     const fromConfig = getFluidConfig(from)
 
     if (fromConfig) {
@@ -602,6 +959,27 @@ export class SpringValue<T = any> extends FrameValue<T> {
     /** The "to" prop is async. */
     const hasAsyncTo = isAsyncTo(props.to)
 
+    // Reversed animations use a copy of the config, which is replaced
+    // by the original once the goal is changed by another update.
+    if (hasToChanged && !hasAsyncTo) {
+      if (props.reversed) {
+        anim.baseConfig = anim.baseConfig || anim.config
+        anim.config = Object.assign(new AnimationConfig(), anim.config)
+      } else if (anim.baseConfig) {
+        anim.config = anim.baseConfig
+        anim.baseConfig = undefined
+      }
+    }
+
+    /**
+     * Under reduced motion, this key either jumps to its goal (`true`)
+     * or animates for a number of milliseconds.
+     */
+    const reduced =
+      !hasAsyncTo &&
+      isReducedMotion(defaultProps.reducedMotion || G.reducedMotion) &&
+      G.reduceMotion(key)
+
     const { config } = anim
     const { decay, velocity } = config
 
@@ -618,6 +996,16 @@ export class SpringValue<T = any> extends FrameValue<T> {
       )
     }
 
+    // Brief animations use a copy of the config, like reversed animations.
+    if (hasToChanged && is.num(reduced)) {
+      anim.baseConfig = anim.baseConfig || config
+      anim.config = Object.assign(new AnimationConfig(), config, {
+        duration: reduced,
+        progress: 0,
+        solver: undefined,
+      })
+    }
+
     // This instance might not have its Animated node yet. For example,
     // the constructor can be given props without a "to" or "from" value.
     let node = getAnimated(this)
@@ -637,6 +1025,24 @@ export class SpringValue<T = any> extends FrameValue<T> {
     // The current value, where the animation starts from.
     const value = reset ? (from as T) : this.get()
 
+    // Decay animations with snap points have an implicit goal, which is
+    // chosen when a new decay or velocity starts the animation without a
+    // "to" prop. Other updates (like "pause" or "config") keep the goal.
+    if (
+      config.decay &&
+      config.snap &&
+      !hasAsyncTo &&
+      !hasToProp &&
+      (reset ||
+        !isEqual(config.decay, decay) ||
+        !isEqual(config.velocity, velocity))
+    ) {
+      to = getSnapGoal(value, config)
+      toConfig = getFluidConfig(to)
+      hasToChanged = true
+      this._focus(to)
+    }
+
     // The animation ends at this value, unless "to" is fluid.
     const goal = computeGoal<any>(to)
 
@@ -647,6 +1053,7 @@ export class SpringValue<T = any> extends FrameValue<T> {
     const immediate =
       !hasAsyncTo &&
       (!isAnimatable ||
+        reduced === true ||
         matchProp(defaultProps.immediate || props.immediate, key))
 
     if (hasToChanged) {
@@ -730,6 +1137,7 @@ export class SpringValue<T = any> extends FrameValue<T> {
           ['onStart', 'onChange', 'onPause', 'onResume'] as const,
           prop => (anim[prop] = getEventProp(prop) as any)
         )
+        anim.reversed = !!props.reversed
       }
 
       // The "reset" prop tries to reuse the old "onRest" prop,
@@ -861,9 +1269,24 @@ export class SpringValue<T = any> extends FrameValue<T> {
     if (!anim.changed) {
       anim.changed = true
       callProp(anim.onStart, this)
+      this._fire('start', this)
     }
   }
 
+  /** Call the listeners of an event, and tell our children about it. */
+  protected _fire<E extends keyof SpringEvents<T>>(
+    event: E,
+    ...args: Parameters<SpringEvents<T>[E]>
+  ) {
+    this._listeners.emit(event, ...args)
+    this._emit({
+      type: 'event',
+      parent: this,
+      event,
+      args,
+    })
+  }
+
   protected _onChange(value: T, idle = false) {
     const anim = this.animation
 
@@ -889,6 +1312,7 @@ export class SpringValue<T = any> extends FrameValue<T> {
     // Use the current values as the from values.
     if (!anim.immediate) {
       anim.fromValues = anim.values.map(node => node.lastPosition)
+      anim.fromVelocities = anim.values.map(node => node.lastVelocity)
     }
 
     if (!isAnimating(this)) {
@@ -909,7 +1333,7 @@ export class SpringValue<T = any> extends FrameValue<T> {
     if (G.skipAnimation) {
       this.finish()
     } else {
-      G.frameLoop.start(this)
+      this.frameLoop.start(this)
     }
   }
 
@@ -932,22 +1356,36 @@ export class SpringValue<T = any> extends FrameValue<T> {
         parent: this,
       })
 
+      // Never call the "onRest" prop or listeners for no-op animations.
+      const result = anim.changed ? getRestResult(this, cancel) : null
+
       const onRestQueue = anim.onRest
       if (onRestQueue.length) {
         // Preserve the "onRest" prop when the goal is dynamic.
         anim.onRest = [anim.toValues ? noop : onRestQueue[0]]
 
-        // Never call the "onRest" prop for no-op animations.
         if (!anim.changed) {
           onRestQueue[0] = noop
         }
 
         each(onRestQueue, onRest => onRest(cancel))
       }
+
+      if (result) {
+        this._fire('rest', result)
+      }
     }
   }
 }
 
+/** Get the milliseconds that have passed in an animation. */
+function getElapsedTime(anim: Animation) {
+  return anim.values.reduce(
+    (time, node) => Math.max(time, node.elapsedTime || 0),
+    0
+  )
+}
+
 /**
  * The "finished" value is determined by each "onRest" handler,
  * based on whether the current value equals the goal value that
@@ -957,21 +1395,45 @@ function checkFinishedOnRest<T extends SpringValue>(
   onRest: OnRest<T> | undefined,
   spring: T
 ) {
-  const { to } = spring.animation
+  const { to, reversed } = spring.animation
   return onRest
     ? (cancel?: boolean) => {
-        if (cancel) {
-          onRest(getCancelledResult(spring))
-        } else {
-          const goal = computeGoal(to)
-          const value = computeGoal(spring.get())
-          const finished = isEqual(value, goal)
-          onRest(getFinishedResult(spring, finished))
-        }
+        onRest(getRestResult(spring, cancel, to, reversed))
       }
     : noop
 }
 
+/** Get the result of an animation that came to rest. */
+function getRestResult<T extends SpringValue>(
+  spring: T,
+  cancel: boolean | undefined,
+  to = spring.animation.to,
+  reversed = spring.animation.reversed
+) {
+  const result: AnimationResult<T> = cancel
+    ? getCancelledResult(spring)
+    : getFinishedResult(
+        spring,
+        isEqual(
+          computeGoal(spring.get()),
+          wrapGoal(computeGoal(to), spring.animation.config)
+        )
+      )
+  if (reversed) {
+    result.reversed = true
+  }
+  return result
+}
+
+/** Get the value where the current animation started. */
+function getOrigin(spring: SpringValue) {
+  const anim = spring.animation
+  const origin = anim.values.map((node, i) =>
+    node instanceof AnimatedString ? node['_toString'](0) : anim.fromValues[i]
+  )
+  return getAnimated(spring) instanceof AnimatedValue ? origin[0] : origin
+}
+
 export function createLoopUpdate<T>(
   props: T & { loop?: any; to?: any; from?: any; reverse?: any },
   loop = props.loop,
@@ -1046,6 +1508,95 @@ function findDefined(values: Lookup, keys: Set<string>) {
   eachProp(values, (value, key) => value != null && keys.add(key as any))
 }
 
+/** Get the range of a circular value, if any. */
+function getWrapRange(config: AnimationConfig, i: number) {
+  const wrap = is.arr(config.wrap) ? config.wrap[i] : config.wrap
+  return wrap == null
+    ? undefined
+    : is.num(wrap)
+    ? [0, wrap]
+    : [wrap.min || 0, wrap.max]
+}
+
+/** Get the circumference of a circular value, or zero if not circular. */
+function getCircumference(config: AnimationConfig, i: number) {
+  const wrap = getWrapRange(config, i)
+  return wrap ? wrap[1] - wrap[0] : 0
+}
+
+/** Move a position of a circular value within its range. */
+function wrapPosition(position: number, config: AnimationConfig, i: number) {
+  const circumference = getCircumference(config, i)
+  if (circumference > 0) {
+    const min = getWrapRange(config, i)![0]
+    const offset = (position - min) % circumference
+    return min + (offset < 0 ? offset + circumference : offset)
+  }
+  return position
+}
+
+/** Move the numbers of a goal value within the range of any circular values. */
+function wrapGoal<T>(goal: T, config: AnimationConfig): T {
+  if (config.wrap == null) {
+    return goal
+  }
+  const wrap = (n: any, i: number) =>
+    is.num(n) ? wrapPosition(n, config, i) : n
+  return (is.arr(goal) ? goal.map(wrap) : wrap(goal, 0)) as any
+}
+
+/** Get the shortest signed distance between two points on a circle. */
+function getWrappedDelta(delta: number, circumference: number) {
+  return delta - circumference * Math.round(delta / circumference)
+}
+
+/**
+ * Move any numbers past the given bounds toward them, by multiplying the
+ * distance past the bounds with the given factor.
+ */
+function applyBounds<T>(
+  value: T,
+  { min = -Infinity, max = Infinity }: { min?: number; max?: number },
+  factor: number
+): T {
+  const apply = (n: any) =>
+    !is.num(n)
+      ? n
+      : n < min
+      ? min - (min - n) * factor
+      : n > max
+      ? max + (n - max) * factor
+      : n
+  return is.arr(value) ? (value.map(apply) as any) : apply(value)
+}
+
+/**
+ * Find where a decay animation would naturally end, and return the snap
+ * point chosen for it.
+ */
+function getSnapGoal<T>(value: T, config: AnimationConfig): T {
+  const { snap, velocity } = config
+  const decay = config.decay === true ? 0.998 : (config.decay as number)
+  const snapTo = (position: any, i: number) => {
+    if (!is.num(position)) return position
+    const v0 = (is.arr(velocity) ? velocity[i] : velocity) || 0
+    const projectedEnd = position + v0 / (1 - decay)
+    if (is.fun(snap)) {
+      return snap(projectedEnd, v0)
+    }
+    let goal = position
+    let distance = Infinity
+    each(snap!, point => {
+      if (Math.abs(point - projectedEnd) < distance) {
+        distance = Math.abs(point - projectedEnd)
+        goal = point
+      }
+    })
+    return goal
+  }
+  return is.arr(value) ? (value.map(snapTo) as any) : snapTo(value, 0)
+}
+
 /** Coerce an event prop into a function */
 function resolveEventProp<T, P extends keyof SpringProps>(
   defaultProps: SpringProps<T>,
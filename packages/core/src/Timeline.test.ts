@@ -0,0 +1,173 @@
+import { Globals, ManualFrameLoop } from '@react-spring/shared'
+import { Controller } from './Controller'
+import { SpringRef } from './SpringRef'
+import { Timeline } from './Timeline'
+
+describe('Timeline', () => {
+  const defaults = { ...Globals }
+  let frameLoop: ManualFrameLoop
+
+  beforeEach(() => {
+    frameLoop = new ManualFrameLoop()
+    Globals.assign({ frameLoop })
+  })
+  afterEach(() => {
+    Globals.assign(defaults)
+  })
+
+  /** Create a ref whose controller has a queued animation of "x" */
+  const createRef = (duration = 100) => {
+    const ref = new SpringRef()
+    const ctrl = new Controller({ x: 0 })
+    ref.add(ctrl)
+    ctrl.update({ x: 1, config: { duration } })
+    return {
+      ref,
+      get x() {
+        return ctrl.springs.x.get()
+      },
+    }
+  }
+
+  it('plays children one after another by default', () => {
+    const a = createRef()
+    const b = createRef()
+    const timeline = new Timeline().add(a.ref).add(b.ref)
+    timeline.play()
+
+    frameLoop.step(50)
+    expect([a.x, b.x]).toEqual([0.5, 0])
+
+    frameLoop.step(100)
+    expect([a.x, b.x]).toEqual([1, 0.5])
+    expect(timeline.duration).toBe(200)
+  })
+
+  it('supports positions relative to the previous child', () => {
+    const a = createRef()
+    const b = createRef()
+    const c = createRef()
+    new Timeline().add(a.ref).add(b.ref, '>-20').add(c.ref, '<10').play()
+
+    frameLoop.step(90)
+    expect([a.x, b.x, c.x]).toEqual([0.9, 0.1, 0])
+
+    frameLoop.step(10)
+    expect([a.x, b.x, c.x]).toEqual([1, 0.2, 0.1])
+  })
+
+  it('supports absolute positions and labels', () => {
+    const a = createRef()
+    const b = createRef()
+    const timeline = new Timeline()
+      .add(a.ref, 50)
+      .addLabel('intro', 20)
+      .add(b.ref, 'intro+=10')
+
+    timeline.play()
+    frameLoop.step(60)
+    expect([a.x, b.x]).toEqual([0.1, 0.3])
+  })
+
+  it('throws for an invalid position', () => {
+    expect(() => new Timeline().add(createRef().ref, '100')).toThrow(
+      'Invalid timeline position: "100"'
+    )
+  })
+
+  it('resolves its promise and calls "onComplete" when done', async () => {
+    const onComplete = jest.fn()
+    const timeline = new Timeline({ onComplete }).add(createRef().ref)
+    const promise = timeline.play()
+
+    frameLoop.runUntilIdle()
+    expect(await promise).toEqual({ finished: true })
+    expect(onComplete).toBeCalledWith(timeline)
+    expect(timeline.isPlaying).toBeFalsy()
+  })
+
+  it('can be paused', () => {
+    const a = createRef()
+    const timeline = new Timeline().add(a.ref)
+    timeline.play()
+
+    frameLoop.step(50)
+    timeline.pause()
+    frameLoop.step(20)
+    expect(a.x).toBe(0.5)
+
+    timeline.play()
+    frameLoop.step(20)
+    expect(a.x).toBe(0.7)
+  })
+
+  it('can seek', () => {
+    const a = createRef()
+    const b = createRef()
+    const timeline = new Timeline().add(a.ref).add(b.ref)
+
+    timeline.seek(150)
+    expect([a.x, b.x]).toEqual([1, 0.5])
+
+    // Paused until played.
+    frameLoop.step(20)
+    expect(b.x).toBe(0.5)
+
+    timeline.seek(50)
+    expect([a.x, b.x]).toEqual([0.5, 0])
+  })
+
+  it('can play in reverse', async () => {
+    const onReverseComplete = jest.fn()
+    const a = createRef()
+    const b = createRef()
+    const timeline = new Timeline({ onReverseComplete }).add(a.ref).add(b.ref)
+    timeline.play()
+    frameLoop.step(150)
+
+    const promise = timeline.reverse()
+    frameLoop.step(25)
+    expect([a.x, b.x]).toEqual([1, 0.25])
+
+    frameLoop.step(50)
+    expect(b.x).toBe(0)
+    expect(a.x).toBeCloseTo(0.75)
+
+    frameLoop.runUntilIdle()
+    expect(a.x).toBe(0)
+    expect(await promise).toEqual({ finished: true, reversed: true })
+    expect(onReverseComplete).toBeCalled()
+  })
+
+  it('can repeat', () => {
+    const onRepeat = jest.fn()
+    const a = createRef()
+    const timeline = new Timeline({ repeat: 1, onRepeat }).add(a.ref)
+    timeline.play()
+
+    frameLoop.step(100)
+    frameLoop.step(50)
+    expect(onRepeat).toBeCalledTimes(1)
+    expect(a.x).toBe(0.5)
+
+    frameLoop.runUntilIdle()
+    expect(a.x).toBe(1)
+    expect(timeline.isPlaying).toBeFalsy()
+  })
+
+  it('can contain other timelines', () => {
+    const a = createRef()
+    const b = createRef()
+    const c = createRef()
+    const child = new Timeline().add(b.ref).add(c.ref)
+    const timeline = new Timeline().add(a.ref).add(child, '<50')
+    timeline.play()
+
+    frameLoop.step(200)
+    expect([a.x, b.x, c.x]).toEqual([1, 1, 0.5])
+
+    frameLoop.runUntilIdle()
+    expect(timeline.duration).toBe(250)
+    expect(c.x).toBe(1)
+  })
+})
@@ -0,0 +1,514 @@
+import { each, FrameLoop, Globals as G } from '@react-spring/shared'
+import { Lookup } from '@react-spring/types'
+import { ControllerUpdate } from './types'
+import { ControllerQueue } from './Controller'
+import { SpringRef } from './SpringRef'
+
+/**
+ * Where a child of a `Timeline` starts. Numbers are absolute times
+ * (in milliseconds).
+ *
+ * - `"<"` is the start of the previous child, and `">"` is its end
+ * - `"+=100"` and `"-=100"` are relative to the end of the timeline
+ * - `"label"` is the time of a label (created at the end if missing)
+ *
+ * The `<`, `>`, and label positions can have an offset too, like
+ * `"<100"`, `">-200"`, or `"label+=100"`.
+ *
+ * When omitted, a child starts at the end of the timeline.
+ */
+export type TimelinePosition = number | string
+
+export interface TimelineResult {
+  /** False when interrupted by `stop` or a change of direction */
+  finished: boolean
+  /** True when the timeline played backwards */
+  reversed?: boolean
+}
+
+export interface TimelineProps {
+  /** Play the timeline this many extra times. Use `Infinity` to repeat forever. */
+  repeat?: number
+  /** The frameloop that plays the timeline. Defaults to `Globals.frameLoop` */
+  frameLoop?: FrameLoop
+  /** Called when the timeline reaches its end */
+  onComplete?: (timeline: Timeline) => void
+  /** Called when the timeline reaches its start, while reversed */
+  onReverseComplete?: (timeline: Timeline) => void
+  /** Called when the timeline begins to repeat */
+  onRepeat?: (timeline: Timeline) => void
+}
+
+interface TimelineEntry {
+  target: SpringRef<any> | Timeline
+  /** Resolve the start time, once its anchor is known */
+  anchor: () => number | undefined
+  /** The update passed to `add`, if any */
+  props?: ControllerUpdate
+  /** The queued updates of each controller, taken on the first start */
+  queues?: ControllerQueue[]
+  /** The values of each controller, taken on the first start */
+  values?: Lookup[]
+  start?: number
+  duration?: number
+  started: boolean
+  /** Equals true once started at least once */
+  played: boolean
+}
+
+const positionRegex = /^(<|>|[a-z_$][\w$]*)?(?:([+-])=?)?(\d*\.?\d+)?$/i
+
+/**
+ * A `Timeline` plays `SpringRef` objects (and other timelines)
+ * at fixed positions in time, which can overlap.
+ *
+ * The queued updates of each controller are used, unless `add` is
+ * given an update. Repeats replay them from the values each controller
+ * had when first started.
+ */
+export class Timeline implements TimelineProps {
+  /** The current time (in milliseconds) of the current iteration */
+  time = 0
+
+  /** Equals false while in the frameloop */
+  idle = true
+
+  /** Advanced after the animations it starts */
+  readonly priority = Infinity
+
+  repeat = 0
+  frameLoop?: FrameLoop
+  onComplete?: (timeline: Timeline) => void
+  onReverseComplete?: (timeline: Timeline) => void
+  onRepeat?: (timeline: Timeline) => void
+
+  protected _entries: TimelineEntry[] = []
+  protected _labels: Lookup<() => number | undefined> = {}
+  protected _playing = false
+  protected _direction = 1
+  protected _iteration = 0
+  protected _resolve?: (result: TimelineResult) => void
+
+  constructor(props?: TimelineProps) {
+    Object.assign(this, props)
+  }
+
+  /**
+   * The length of one iteration (in milliseconds), which is undefined
+   * until the duration of every child is known.
+   */
+  get duration() {
+    let duration = 0
+    for (const entry of this._entries) {
+      const end = this._getEnd(entry)
+      if (end === undefined) return
+      duration = Math.max(duration, end)
+    }
+    return duration
+  }
+
+  /** The length of every iteration combined (in milliseconds) */
+  get totalDuration() {
+    const { duration } = this
+    return duration === undefined ? duration : duration * (this.repeat + 1)
+  }
+
+  /** Equals true when playing forward or backward */
+  get isPlaying() {
+    return this._playing
+  }
+
+  /** Equals true when playing backward */
+  get isReversed() {
+    return this._direction < 0
+  }
+
+  /** Play a `SpringRef` or a `Timeline` at the given position. */
+  add(
+    target: SpringRef<any> | Timeline,
+    position?: TimelinePosition,
+    props?: ControllerUpdate
+  ) {
+    this._entries.push({
+      target,
+      anchor: this._parsePosition(position),
+      props,
+      started: false,
+      played: false,
+    })
+    return this
+  }
+
+  /** Name a position, so children can be added relative to it. */
+  addLabel(name: string, position?: TimelinePosition) {
+    this._labels[name] = this._parsePosition(position)
+    return this
+  }
+
+  /**
+   * Play forward from the current time, or from the start once finished.
+   * The promise resolves when the end is reached.
+   */
+  play(): Promise<TimelineResult> {
+    const { duration } = this
+    if (duration !== undefined && this.time >= duration) {
+      this._iteration = 0
+      this.seek(0)
+    }
+    return this._play(1)
+  }
+
+  /**
+   * Play backward from the current time. The promise resolves when
+   * the start is reached.
+   */
+  reverse(): Promise<TimelineResult> {
+    return this._play(-1)
+  }
+
+  /** Pause the timeline and the animations it started. */
+  pause() {
+    if (this._playing) {
+      this._setPlaying(false)
+      this._leave()
+    }
+    return this
+  }
+
+  /** Stop playing, and stop the animations it started. */
+  stop() {
+    this._settle(false)
+    this._playing = false
+    this._leave()
+    this._eachStarted(entry => entry.target.stop())
+    return this
+  }
+
+  /** Stop playing, and remove every child and label. */
+  clear() {
+    this.stop()
+    this._entries = []
+    this._labels = {}
+    this._iteration = 0
+    this._direction = 1
+    this.time = 0
+    return this
+  }
+
+  /**
+   * Jump to a point in time (in milliseconds). Children that start
+   * before then are started and seeked, and later children are reset.
+   */
+  seek(time: number) {
+    time = Math.max(0, time)
+    this.time = time
+    each(this._entries, entry => {
+      const start = this._getStart(entry)
+      if (start !== undefined && start <= time) {
+        if (!entry.started) {
+          this._startEntry(entry)
+        }
+        seekTarget(entry.target, time - start)
+      } else if (entry.started) {
+        entry.started = false
+        seekTarget(entry.target, 0)
+      }
+    })
+    if (!this._playing) {
+      this._setPlaying(false)
+    }
+    return this
+  }
+
+  /** @internal Called by the frameloop */
+  advance(dt: number) {
+    this._update(this.time + dt * this._direction)
+  }
+
+  /** Move to the given time, starting and reversing children as needed. */
+  protected _update(time: number) {
+    const prevTime = this.time
+    const forward = time >= prevTime
+
+    if (forward) {
+      this._updateEntries(time, true)
+      this.time = time
+
+      // Repeat until the given time is within the current iteration.
+      let { duration } = this
+      while (
+        duration !== undefined &&
+        duration > 0 &&
+        time >= duration &&
+        this._iteration < this.repeat
+      ) {
+        each(this._entries, entry => (entry.started = false))
+        this._iteration++
+        this.time = 0
+        time -= duration
+        this.onRepeat?.(this)
+
+        this._updateEntries(time, true)
+        this.time = time
+        duration = this.duration
+      }
+
+      if (duration !== undefined && time >= duration) {
+        this.time = duration
+        this._complete(this.onComplete)
+      }
+    } else {
+      this._updateEntries(time, false)
+      this.time = Math.max(0, time)
+      if (time <= 0) {
+        this._complete(this.onReverseComplete)
+      }
+    }
+  }
+
+  protected _updateEntries(time: number, forward: boolean) {
+    const prevTime = this.time
+    each(this._entries, entry => {
+      const start = this._getStart(entry)
+      if (start === undefined) return
+      if (forward) {
+        if (!entry.started && start <= time) {
+          this._startEntry(entry, time - start)
+        }
+      } else if (entry.started) {
+        // Finished children play backward once their end is passed.
+        const end = this._getEnd(entry)
+        if (end !== undefined && end > time && end <= prevTime) {
+          this._reverseTarget(entry.target, -1)
+          if (!(entry.target instanceof Timeline)) {
+            seekTarget(entry.target, end - time)
+          }
+        }
+      }
+      // Children are driven by their parent.
+      if (entry.started && entry.target instanceof Timeline) {
+        const child = entry.target
+        child._update(time - start - child._iteration * (child.duration || 0))
+      }
+      if (!forward && start > time) {
+        entry.started = false
+      }
+    })
+  }
+
+  /** Start a child, which began `elapsed` milliseconds ago. */
+  protected _startEntry(entry: TimelineEntry, elapsed = 0) {
+    const { target, props } = entry
+    entry.started = true
+
+    if (target instanceof Timeline) {
+      target.time = 0
+      target._iteration = 0
+      target._direction = 1
+      target._playing = this._playing
+      each(target._entries, entry => (entry.started = false))
+    } else {
+      // Take the queued updates and values on the first start,
+      // so repeats can replay them.
+      if (!entry.played) {
+        entry.values = target.current.map(ctrl => ctrl.get())
+        if (!props) {
+          entry.queues = target.current.map(ctrl => {
+            const queue = ctrl.queue
+            ctrl.queue = []
+            return queue
+          })
+        }
+      }
+      each(target.current, (ctrl, i) => {
+        const reset = entry.played
+          ? { from: entry.values![i], reset: true }
+          : null
+        if (props) {
+          ctrl.update({ ...props, ...reset })
+        } else {
+          each(entry.queues![i] || [], update =>
+            ctrl.queue.push({ ...update, ...reset })
+          )
+        }
+        ctrl.start()
+      })
+      entry.duration = getDuration(target)
+      if (elapsed > 0) {
+        seekTarget(target, elapsed)
+      }
+    }
+    entry.played = true
+  }
+
+  protected _play(direction: number) {
+    this._setDirection(direction)
+
+    const promise = new Promise<TimelineResult>(resolve => {
+      this._settle(false)
+      this._resolve = resolve
+    })
+
+    if (!this._playing) {
+      this._setPlaying(true)
+    }
+    if (this.idle) {
+      this.idle = false
+      this._getFrameLoop().start(this)
+    }
+    return promise
+  }
+
+  protected _setDirection(direction: number) {
+    if (direction != this._direction) {
+      this._direction = direction
+      this._settle(false)
+
+      // Children in progress change direction with us.
+      this._eachStarted(entry => {
+        const end = this._getEnd(entry)
+        if (end === undefined || end > this.time) {
+          this._reverseTarget(entry.target, direction)
+        }
+      })
+    }
+  }
+
+  /** Make a child play in the given direction. */
+  protected _reverseTarget(
+    target: SpringRef<any> | Timeline,
+    direction: number
+  ) {
+    if (target instanceof Timeline) {
+      target._setDirection(direction)
+    } else {
+      each(target.current, ctrl => ctrl.reverse())
+    }
+  }
+
+  protected _complete(callback?: (timeline: Timeline) => void) {
+    this._playing = false
+    this._leave()
+    this._settle(true)
+    callback?.(this)
+  }
+
+  /** Resolve the promise of the current playback, if any. */
+  protected _settle(finished: boolean) {
+    const resolve = this._resolve
+    if (resolve) {
+      this._resolve = undefined
+      resolve({ finished, reversed: this._direction < 0 || undefined })
+    }
+  }
+
+  protected _setPlaying(playing: boolean) {
+    this._playing = playing
+    this._eachStarted(({ target }) => {
+      if (target instanceof Timeline) target._setPlaying(playing)
+      else if (playing) target.resume()
+      else target.pause()
+    })
+  }
+
+  protected _leave() {
+    // The frameloop removes us once idle.
+    this.idle = true
+  }
+
+  protected _eachStarted(iterator: (entry: TimelineEntry) => void) {
+    each(this._entries, entry => entry.started && iterator(entry))
+  }
+
+  protected _getFrameLoop() {
+    return this.frameLoop || G.frameLoop
+  }
+
+  protected _getStart(entry: TimelineEntry) {
+    if (entry.start === undefined) {
+      entry.start = entry.anchor()
+    }
+    return entry.start
+  }
+
+  protected _getEnd(entry: TimelineEntry) {
+    const start = this._getStart(entry)
+    const duration =
+      entry.target instanceof Timeline
+        ? entry.target.totalDuration
+        : entry.duration
+    return start === undefined || duration === undefined
+      ? undefined
+      : start + duration
+  }
+
+  /** Convert a position into a function that resolves its time. */
+  protected _parsePosition(
+    position: TimelinePosition = '+=0'
+  ): () => number | undefined {
+    if (typeof position == 'number') {
+      return () => position
+    }
+    const match = positionRegex.exec(position)
+    const [, anchor, sign, amount] = match || []
+    if (!match || !position || (amount && !sign && !/^[<>]$/.test(anchor))) {
+      throw Error(`Invalid timeline position: "${position}"`)
+    }
+
+    const offset = amount ? Number(amount) * (sign == '-' ? -1 : 1) : 0
+    const entries = this._entries.slice()
+    const prev = entries[entries.length - 1]
+
+    let resolve: () => number | undefined
+    if (anchor == '<' || anchor == '>') {
+      resolve = !prev
+        ? () => 0
+        : anchor == '<'
+        ? () => this._getStart(prev)
+        : () => this._getEnd(prev)
+    } else if (anchor) {
+      resolve =
+        this._labels[anchor] ||
+        (this._labels[anchor] = this._getEndBefore(entries))
+    } else {
+      resolve = this._getEndBefore(entries)
+    }
+
+    return () => {
+      const time = resolve()
+      return time === undefined ? time : Math.max(0, time + offset)
+    }
+  }
+
+  /** Get a function that resolves the end of the given children. */
+  protected _getEndBefore(entries: TimelineEntry[]) {
+    return () => {
+      let end = 0
+      for (const entry of entries) {
+        const time = this._getEnd(entry)
+        if (time === undefined) return
+        end = Math.max(end, time)
+      }
+      return end
+    }
+  }
+}
+
+/** Get the longest animation of each controller in a ref. */
+function getDuration(ref: SpringRef) {
+  let duration = 0
+  each(ref.current, ctrl =>
+    ctrl.each(spring => {
+      duration = Math.max(duration, spring.duration)
+    })
+  )
+  return duration
+}
+
+function seekTarget(target: SpringRef<any> | Timeline, time: number) {
+  if (target instanceof Timeline) {
+    target.seek(time)
+  } else {
+    each(target.current, ctrl => ctrl.seek(time))
+  }
+}
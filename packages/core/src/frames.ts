@@ -0,0 +1,82 @@
+import { noop } from '@react-spring/shared'
+import { FramesOptions } from './types'
+
+const finished: IteratorReturnResult<any> = { value: undefined, done: true }
+
+/**
+ * Create an async iterator from a `subscribe` function, which is called
+ * with a `push` function (to emit a value) and an `end` function (to end
+ * the iteration). The returned function is called once the iteration ends,
+ * even when `end` is called while subscribing.
+ */
+export function iterateFrames<T>(
+  subscribe: (push: (value: T) => void, end: () => void) => () => void,
+  { signal, backpressure = 'latest' }: FramesOptions = {}
+): AsyncIterableIterator<T> {
+  const values: T[] = []
+  const waiting: ((result: IteratorResult<T>) => void)[] = []
+
+  let done = false
+  let unsubscribe = noop
+
+  const push = (value: T) => {
+    if (done) return
+    const resolve = waiting.shift()
+    if (resolve) {
+      resolve({ value, done: false })
+    } else if (backpressure == 'buffer' || !values.length) {
+      values.push(value)
+    } else {
+      values[0] = value
+    }
+  }
+
+  const end = () => {
+    if (done) return
+    done = true
+    unsubscribe()
+    if (signal) {
+      signal.removeEventListener('abort', abort)
+    }
+    waiting.splice(0).forEach(resolve => resolve(finished))
+  }
+
+  // Values not yet consumed are dropped when aborted.
+  const abort = () => {
+    values.length = 0
+    end()
+  }
+
+  if (signal && signal.aborted) {
+    done = true
+  } else {
+    if (signal) {
+      signal.addEventListener('abort', abort)
+    }
+    unsubscribe = subscribe(push, end)
+    if (done) {
+      unsubscribe()
+    }
+  }
+
+  return {
+    next() {
+      return new Promise<IteratorResult<T>>(resolve => {
+        if (values.length) {
+          resolve({ value: values.shift()!, done: false })
+        } else if (done) {
+          resolve(finished)
+        } else {
+          waiting.push(resolve)
+        }
+      })
+    },
+    return() {
+      abort()
+      return Promise.resolve(finished)
+    },
+    [Symbol.asyncIterator]() {
+      return this
+    },
+  }
+}
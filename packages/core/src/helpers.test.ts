@@ -1,4 +1,5 @@
-import { inferTo } from './helpers'
+import { inferTo, resolveRelativeValue } from './helpers'
+import { Controller } from './Controller'
 import { ReservedProps } from './types/props'
 
 describe('helpers', () => {
@@ -20,6 +21,9 @@ describe('helpers', () => {
       loop: undefined,
       reset: undefined,
       pause: undefined,
+      speed: undefined,
+      frameLoop: undefined,
+      reducedMotion: undefined,
       cancel: undefined,
       reverse: undefined,
       immediate: undefined,
@@ -50,4 +54,43 @@ describe('helpers', () => {
       ...excludeProps,
     })
   })
+
+  it('only animates reserved keys given in the "to" prop', () => {
+    const props = { speed: 2, frameLoop: 1, reducedMotion: 1, reversed: 1 }
+    expect(inferTo(props)).toEqual(props)
+    expect(inferTo({ to: props })).toEqual({ to: props })
+
+    const ctrl = new Controller({ to: { speed: 0 } })
+    ctrl.start({ speed: 0.5 })
+    expect(ctrl.get()).toEqual({ speed: 0 })
+    expect(ctrl.speed).toBe(0.5)
+  })
+
+  describe('resolveRelativeValue', () => {
+    it('supports every operator', () => {
+      expect(resolveRelativeValue('+=10', 5)).toBe(15)
+      expect(resolveRelativeValue('-=10', 5)).toBe(-5)
+      expect(resolveRelativeValue('*=2', 5)).toBe(10)
+      expect(resolveRelativeValue('/=2', 5)).toBe(2.5)
+      expect(resolveRelativeValue('+=-0.5', 1)).toBe(0.5)
+    })
+
+    it('supports units', () => {
+      expect(resolveRelativeValue('+=10', '5px')).toBe('15px')
+      expect(resolveRelativeValue('-=45deg', 0)).toBe('-45deg')
+      expect(resolveRelativeValue('*=2', '1.5em')).toBe('3em')
+      expect(() => resolveRelativeValue('+=1px', '1em')).toThrow()
+      expect(() => resolveRelativeValue('+=1', 'red')).toThrow()
+    })
+
+    it('supports arrays', () => {
+      expect(resolveRelativeValue(['+=1', 5], [1, 2])).toEqual([2, 5])
+      expect(resolveRelativeValue('*=2', [1, 2])).toEqual([2, 4])
+    })
+
+    it('ignores other values', () => {
+      expect(resolveRelativeValue(5, 1)).toBe(5)
+      expect(resolveRelativeValue('10px', 1)).toBe('10px')
+    })
+  })
 })
@@ -100,11 +100,13 @@ export const mergeDefaultProps = (
  * for any given update.
  *
  * Note: These are not the only props with default values. For example, the
- * `pause`, `cancel`, and `immediate` props. But those must be updated with
- * the object syntax (eg: `default: { immediate: true }`).
+ * `pause`, `cancel`, `speed`, and `immediate` props. But those must be updated
+ * with the object syntax (eg: `default: { immediate: true }`).
  */
 export const DEFAULT_PROPS = [
   'config',
+  'frameLoop',
+  'reducedMotion',
   'onDelayEnd',
   'onProps',
   'onStart',
@@ -114,6 +116,13 @@ export const DEFAULT_PROPS = [
   'onRest',
 ] as const
 
+/**
+ * Keys with these names are only animated when given in the `to` prop.
+ *
+ * Note: This is a breaking change for keys named `speed`, `frameLoop`,
+ * `reducedMotion`, or `reversed`, which were animated before those props
+ * existed. Use `useSpring({ to: { speed: 1 } })` to animate them.
+ */
 const RESERVED_PROPS: {
   [key: string]: 1 | undefined
 } = {
@@ -124,6 +133,9 @@ const RESERVED_PROPS: {
   loop: 1,
   reset: 1,
   pause: 1,
+  speed: 1,
+  frameLoop: 1,
+  reducedMotion: 1,
   cancel: 1,
   reverse: 1,
   immediate: 1,
@@ -152,6 +164,7 @@ const RESERVED_PROPS: {
   keys: 1,
   callId: 1,
   parentId: 1,
+  reversed: 1,
 }
 
 /**
@@ -206,6 +219,64 @@ export function computeGoal<T>(value: T | FluidValue<T>): T {
     : value
 }
 
+const relativeRegex = /^([-+*/])=\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)([a-z%]*)$/i
+const unitRegex = /^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)([a-z%]*)\s*$/i
+
+/** Returns true for relative values like `"+=100"` or `"-=45deg"` */
+export const isRelativeValue = (value: unknown): value is string =>
+  is.str(value) && relativeRegex.test(value)
+
+/** Returns true if the given value (or one of its elements) is relative. */
+export const hasRelativeValue = (value: unknown) =>
+  is.arr(value) ? value.some(isRelativeValue) : isRelativeValue(value)
+
+/**
+ * Resolve any relative values (like `"+=100"` or `"*=2"`) against the
+ * given base value. The base value can have a unit (like `"10px"`).
+ *
+ * Arrays are resolved one element at a time.
+ */
+export function resolveRelativeValue(value: any, base: any): any {
+  if (is.arr(value)) {
+    return value.map((value, i) =>
+      resolveRelativeValue(value, is.arr(base) ? base[i] : base)
+    )
+  }
+  if (!isRelativeValue(value)) {
+    return value
+  }
+  if (is.arr(base)) {
+    return base.map(base => resolveRelativeValue(value, base))
+  }
+  const [, operator, operand, unit] = relativeRegex.exec(value)!
+
+  let from = base
+  let baseUnit = ''
+  if (!is.num(base)) {
+    const match = is.str(base) && unitRegex.exec(base)
+    if (!match) {
+      throw Error(`Cannot resolve "${value}" against: ${base}`)
+    }
+    from = Number(match[1])
+    baseUnit = match[2]
+  }
+  if (unit && baseUnit && unit != baseUnit) {
+    throw Error(`Cannot resolve "${value}" against: ${base}`)
+  }
+
+  const amount = Number(operand)
+  const result =
+    operator == '+'
+      ? from + amount
+      : operator == '-'
+      ? from - amount
+      : operator == '*'
+      ? from * amount
+      : from / amount
+
+  return unit || baseUnit ? result + (unit || baseUnit) : result
+}
+
 export function hasProps(props: object) {
   for (const _ in props) return true
   return false
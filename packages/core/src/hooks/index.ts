@@ -1,6 +1,8 @@
 export * from './useChain'
+export * from './useReducedMotion'
 export * from './useSpring'
 export * from './useSprings'
 export * from './useSpringRef'
+export * from './useTimeline'
 export * from './useTrail'
 export * from './useTransition'
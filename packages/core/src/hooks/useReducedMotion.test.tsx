@@ -0,0 +1,67 @@
+import * as React from 'react'
+import { render, act } from '@testing-library/react'
+import { SpringContext } from '../SpringContext'
+import { SpringValue } from '../SpringValue'
+import { useReducedMotion } from './useReducedMotion'
+import { useSpring } from './useSpring'
+
+declare const window: any
+
+const listeners = new Set<() => void>()
+const mediaQuery = {
+  matches: false,
+  addEventListener: (_: string, listener: () => void) =>
+    listeners.add(listener),
+  removeEventListener: (_: string, listener: () => void) =>
+    listeners.delete(listener),
+}
+window.matchMedia = () => mediaQuery
+
+const setPreference = (reduce: boolean) =>
+  act(() => {
+    mediaQuery.matches = reduce
+    listeners.forEach(listener => listener())
+  })
+
+describe('useReducedMotion', () => {
+  afterEach(() => {
+    mediaQuery.matches = false
+  })
+
+  it('tracks the media query', () => {
+    let reduce: boolean | undefined
+    const Test = () => {
+      reduce = useReducedMotion()
+      return null
+    }
+    const elem = render(<Test />)
+    expect(reduce).toBe(false)
+
+    setPreference(true)
+    expect(reduce).toBe(true)
+
+    setPreference(false)
+    expect(reduce).toBe(false)
+
+    elem.unmount()
+    expect(listeners.size).toBe(0)
+  })
+
+  it('is respected by SpringContext when "user"', () => {
+    let x!: SpringValue<number>
+    const Test = () => {
+      x = useSpring({ x: 1, from: { x: 0 } }).x
+      return null
+    }
+
+    setPreference(true)
+    render(
+      <SpringContext reducedMotion="user">
+        <Test />
+      </SpringContext>
+    )
+
+    mockRaf.step()
+    expect(x.get()).toBe(1)
+  })
+})
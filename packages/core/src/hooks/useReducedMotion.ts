@@ -0,0 +1,16 @@
+import { useState } from 'react'
+import {
+  useOnce,
+  prefersReducedMotion,
+  onReducedMotionChange,
+} from '@react-spring/shared'
+
+/**
+ * Returns true when the user prefers reduced motion,
+ * and re-renders whenever that changes.
+ */
+export function useReducedMotion() {
+  const [reduce, setReduce] = useState(prefersReducedMotion)
+  useOnce(() => onReducedMotionChange(setReduce))
+  return reduce
+}
@@ -0,0 +1,65 @@
+import * as React from 'react'
+import { render } from '@testing-library/react'
+import { Globals, ManualFrameLoop } from '@react-spring/shared'
+import { Timeline } from '../Timeline'
+import { useSpring } from './useSpring'
+import { useSpringRef } from './useSpringRef'
+import { useTimeline } from './useTimeline'
+
+describe('useTimeline', () => {
+  const defaults = { ...Globals }
+  let frameLoop: ManualFrameLoop
+  let timeline: Timeline
+
+  beforeEach(() => {
+    frameLoop = new ManualFrameLoop()
+    Globals.assign({ frameLoop })
+  })
+  afterEach(() => {
+    Globals.assign(defaults)
+  })
+
+  const Test = ({ gap }: { gap: number }) => {
+    const a = useSpringRef()
+    const b = useSpringRef()
+    const props = { from: { x: 0 }, to: { x: 1 }, config: { duration: 100 } }
+    useSpring({ ref: a, ...props })
+    useSpring({ ref: b, ...props })
+
+    timeline = useTimeline(
+      timeline => {
+        timeline.add(a).add(b, '>' + gap)
+      },
+      [gap]
+    )
+    return null
+  }
+
+  it('adds its children once', () => {
+    const elem = render(<Test gap={0} />)
+    elem.rerender(<Test gap={0} />)
+
+    timeline.play()
+    frameLoop.runUntilIdle()
+    expect(timeline.duration).toBe(200)
+  })
+
+  it('replaces its children when "deps" change', () => {
+    const elem = render(<Test gap={0} />)
+    elem.rerender(<Test gap={100} />)
+
+    timeline.play()
+    frameLoop.runUntilIdle()
+    expect(timeline.duration).toBe(300)
+  })
+
+  it('stops the timeline on unmount', () => {
+    const elem = render(<Test gap={0} />)
+    timeline.play()
+    frameLoop.step(50)
+    expect(timeline.isPlaying).toBeTruthy()
+
+    elem.unmount()
+    expect(timeline.isPlaying).toBeFalsy()
+  })
+})
@@ -0,0 +1,30 @@
+import { useState } from 'react'
+import { useLayoutEffect } from 'react-layout-effect'
+import { useOnce } from '@react-spring/shared'
+import { Timeline, TimelineProps } from '../Timeline'
+
+/**
+ * Create a `Timeline` that lives as long as the component.
+ *
+ * The `add` function is called in a layout effect, so the controllers of
+ * its children have queued the updates of this render. When `deps` change,
+ * the timeline is cleared and `add` is called again. The timeline is
+ * stopped on unmount.
+ */
+export function useTimeline(
+  add: (timeline: Timeline) => void,
+  deps: readonly any[] = [],
+  props?: TimelineProps
+) {
+  const timeline = useState(() => new Timeline())[0]
+  Object.assign(timeline, props)
+
+  useLayoutEffect(() => {
+    add(timeline.clear())
+  }, deps)
+
+  useOnce(() => () => {
+    timeline.stop()
+  })
+  return timeline
+}
@@ -8,11 +8,41 @@ export { Controller } from './Controller'
 export { SpringValue } from './SpringValue'
 export { SpringContext } from './SpringContext'
 export { SpringRef } from './SpringRef'
+export { Timeline } from './Timeline'
+export type {
+  TimelinePosition,
+  TimelineProps,
+  TimelineResult,
+} from './Timeline'
 
 export { FrameValue } from './FrameValue'
 export { Interpolation } from './Interpolation'
+export { fromObservable } from './observable'
+export type {
+  ObservableLike,
+  ObservableObserver,
+  Subscription,
+} from './observable'
 export { BailSignal } from './runAsync'
-export { FrameLoop, createInterpolator } from '@react-spring/shared'
+export { durationSolver, decaySolver, springSolver } from './solvers'
+export type { Solver, SolverState, SolverResult } from './solvers'
+export {
+  FrameLoop,
+  ManualFrameLoop,
+  FrameCollector,
+  createInterpolator,
+  easings,
+  cubicBezier,
+  steps,
+} from '@react-spring/shared'
+export type {
+  StepsJumpTerm,
+  FrameLoopOptions,
+  FrameLoopStats,
+  ReducedMotion,
+  FrameStats,
+  FrameObserver,
+} from '@react-spring/shared'
 export { inferTo } from './helpers'
 
 export * from './types'
@@ -0,0 +1,184 @@
+import { SpringValue } from './SpringValue'
+import { $$observable, fromObservable, ObservableObserver } from './observable'
+
+declare const console: any
+
+const frameLength = 1000 / 60
+
+/**
+ * A minimal subject, like the one from RxJS. With a current value,
+ * it emits that value to each new observer, like a `BehaviorSubject`.
+ */
+const createSubject = <T>(...current: [T?]) => {
+  const observers = new Set<ObservableObserver<T>>()
+  return {
+    observers,
+    next(value: T) {
+      current = [value]
+      observers.forEach(observer => observer.next!(value))
+    },
+    error(error: any) {
+      const stopped = Array.from(observers)
+      observers.clear()
+      stopped.forEach(observer => observer.error!(error))
+    },
+    complete() {
+      const stopped = Array.from(observers)
+      observers.clear()
+      stopped.forEach(observer => observer.complete!())
+    },
+    subscribe(observer: ObservableObserver<T>) {
+      observers.add(observer)
+      if (current.length) {
+        observer.next!(current[0]!)
+      }
+      return {
+        unsubscribe() {
+          observers.delete(observer)
+        },
+      }
+    },
+  }
+}
+
+describe('FrameValue', () => {
+  describe('the "subscribe" method', () => {
+    it('observes every change until unsubscribed', async () => {
+      const spring = new SpringValue(0)
+      spring.start(1, { config: { duration: 10 * frameLength } })
+
+      const next = jest.fn()
+      const subscription = spring.subscribe({ next })
+      await advanceUntilIdle()
+
+      expect(next.mock.calls.map(args => args[0])).toEqual(getFrames(spring))
+      expect(subscription.closed).toBeFalsy()
+
+      subscription.unsubscribe()
+      expect(subscription.closed).toBeTruthy()
+      expect(spring['_children'].size).toBe(0)
+
+      spring.set(2)
+      expect(next).not.toBeCalledWith(2)
+    })
+    it('attaches an interpolation to its source', () => {
+      const spring = new SpringValue(0)
+      const doubled = spring.to(x => x * 2)
+
+      const next = jest.fn()
+      const subscription = doubled.subscribe(next)
+      expect(spring['_children'].size).toBe(1)
+
+      spring.set(1)
+      mockRaf.step()
+      expect(next).toBeCalledWith(2)
+
+      subscription.unsubscribe()
+      expect(spring['_children'].size).toBe(0)
+    })
+    it('supports the observable interop method', () => {
+      const spring = new SpringValue(0)
+      expect((spring as any)[$$observable]()).toBe(spring)
+    })
+  })
+})
+
+describe('fromObservable', () => {
+  it('can be used as a "to" target', async () => {
+    const subject = createSubject<number>()
+    const spring = new SpringValue(0)
+    spring.start({
+      to: fromObservable(subject, 0),
+      config: { duration: 10 * frameLength },
+    })
+
+    // The target is not attached until the spring is observed.
+    const observer = { onParentChange() {} }
+    spring.addChild(observer)
+    expect(subject.observers.size).toBe(1)
+
+    subject.next(1)
+    await advanceUntilIdle()
+    expect(spring.get()).toBe(1)
+
+    spring.removeChild(observer)
+    expect(subject.observers.size).toBe(0)
+  })
+  it('can observe a spring', () => {
+    const spring = new SpringValue(0)
+    const fluid = fromObservable(spring, spring.get())
+    expect(fluid.get()).toBe(0)
+
+    const onParentChange = jest.fn()
+    const observer = { onParentChange }
+    fluid.addChild(observer)
+    spring.set(1)
+
+    expect(fluid.get()).toBe(1)
+    expect(onParentChange).toBeCalledWith(
+      expect.objectContaining({ type: 'change', value: 1 })
+    )
+
+    fluid.removeChild(observer)
+    expect(spring['_children'].size).toBe(0)
+  })
+  it('notifies its first child of a value emitted while subscribing', () => {
+    const fluid = fromObservable(createSubject(1), 0)
+    const onParentChange = jest.fn()
+    fluid.addChild({ onParentChange })
+
+    expect(fluid.get()).toBe(1)
+    expect(onParentChange).toBeCalledWith(
+      expect.objectContaining({ type: 'change', value: 1 })
+    )
+  })
+  it('keeps the last value once the source completes', () => {
+    // A cold source, which emits the same values to each observer.
+    const subscribe = jest.fn((observer: ObservableObserver<number>) => {
+      observer.next!(1)
+      observer.next!(2)
+      observer.complete!()
+      return { unsubscribe() {} }
+    })
+    const fluid = fromObservable({ subscribe }, 0)
+    const observer = { onParentChange: jest.fn() }
+    fluid.addChild(observer)
+    expect(fluid.get()).toBe(2)
+
+    // The source is never subscribed to again.
+    fluid.removeChild(observer)
+    fluid.addChild(observer)
+    expect(subscribe).toBeCalledTimes(1)
+    expect(observer.onParentChange).toBeCalledTimes(2)
+    expect(fluid.get()).toBe(2)
+  })
+  it('passes errors from the source to "onError"', () => {
+    const subject = createSubject<number>()
+    const onError = jest.fn()
+    const fluid = fromObservable(subject, 0, onError)
+    const observer = { onParentChange() {} }
+    fluid.addChild(observer)
+
+    subject.next(1)
+    const error = Error('oops')
+    expect(() => subject.error(error)).not.toThrow()
+    expect(onError).toBeCalledWith(error)
+    expect(fluid.get()).toBe(1)
+
+    // The source is never subscribed to again.
+    fluid.removeChild(observer)
+    fluid.addChild(observer)
+    expect(subject.observers.size).toBe(0)
+  })
+  it('logs errors from the source without "onError"', () => {
+    const subject = createSubject<number>()
+    const fluid = fromObservable(subject, 0)
+    fluid.addChild({ onParentChange() {} })
+
+    const error = Error('oops')
+    const log = jest.spyOn(console, 'error').mockImplementation(() => {})
+    expect(() => subject.error(error)).not.toThrow()
+    expect(log).toBeCalledWith(error)
+    log.mockRestore()
+  })
+})
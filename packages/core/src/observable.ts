@@ -0,0 +1,127 @@
+import { is, each, FluidValue, FluidObserver } from '@react-spring/shared'
+
+declare const console: any
+
+/**
+ * The `Symbol.observable` key used by RxJS and other observable libraries,
+ * which falls back to `"@@observable"` when not polyfilled.
+ */
+export const $$observable: string | symbol =
+  (typeof Symbol == 'function' && (Symbol as any).observable) || '@@observable'
+
+/** An object that receives the values of an observable */
+export interface ObservableObserver<T> {
+  next?: (value: T) => void
+  error?: (error: any) => void
+  complete?: () => void
+}
+
+/** The object returned by the `subscribe` method of an observable */
+export interface Subscription {
+  readonly closed: boolean
+  unsubscribe(): void
+}
+
+/** An observable in the TC39 or RxJS sense */
+export interface ObservableLike<T> {
+  subscribe(observer: ObservableObserver<T>): { unsubscribe(): void }
+}
+
+/**
+ * Create a `FluidValue` from an observable, which can be used as an
+ * animated prop or a `to` target. Its value equals `initialValue` until
+ * the first value is emitted.
+ *
+ * The observable is only subscribed to while the fluid value is observed.
+ * Once it completes or fails, its last value is kept. Errors are passed
+ * to `onError`, or logged when it's undefined.
+ */
+export function fromObservable<T>(
+  observable: ObservableLike<T>,
+  initialValue?: T,
+  onError?: (error: any) => void
+): FluidValue<T> {
+  // Prefer the interop method, which some observables have.
+  const interop = (observable as any)[$$observable]
+  return new ObservableValue(
+    is.fun(interop) ? interop.call(observable) : observable,
+    initialValue as T,
+    onError
+  )
+}
+
+class ObservableValue<T> extends FluidValue<T> {
+  protected _children = new Set<FluidObserver>()
+  protected _subscription?: { unsubscribe(): void }
+  /** Equals true once the source has completed or failed */
+  protected _done = false
+
+  constructor(
+    readonly source: ObservableLike<T>,
+    protected _value: T,
+    protected _onError?: (error: any) => void
+  ) {
+    super()
+  }
+
+  get() {
+    return this._value
+  }
+
+  addChild(child: FluidObserver) {
+    const first = !this._children.size
+    this._children.add(child)
+    // The first child is notified of values emitted while subscribing.
+    if (first) this._attach()
+  }
+
+  removeChild(child: FluidObserver) {
+    this._children.delete(child)
+    if (!this._children.size) this._detach()
+  }
+
+  /**
+   * Subscribe to the source when the first child is added, unless it has
+   * completed or failed, since subscribing again would replay a cold source.
+   */
+  protected _attach() {
+    if (this._done) return
+    const onDone = () => {
+      this._done = true
+      this._subscription = undefined
+    }
+    const subscription = this.source.subscribe({
+      next: value => {
+        this._value = value
+        // Clone "_children" so it can be safely mutated inside the loop.
+        each(Array.from(this._children), child => {
+          child.onParentChange({
+            type: 'change',
+            parent: this,
+            value,
+            // Observed values never animate.
+            idle: true,
+          })
+        })
+      },
+      error: error => {
+        onDone()
+        if (this._onError) {
+          this._onError(error)
+        } else {
+          console.error(error)
+        }
+      },
+      complete: onDone,
+    })
+    if (!this._done) {
+      this._subscription = subscription
+    }
+  }
+
+  /** Unsubscribe from the source when the last child is removed. */
+  protected _detach() {
+    this._subscription?.unsubscribe()
+    this._subscription = undefined
+  }
+}
@@ -18,6 +18,7 @@ type AsyncTo<T> = SpringChain<T> | SpringToFn<T>
 export type RunAsyncProps<T extends AnimationTarget = any> = InferProps<T> & {
   callId: number
   parentId?: number
+  reversed?: boolean
   cancel: boolean
   to?: any
 }
@@ -25,6 +26,8 @@ export type RunAsyncProps<T extends AnimationTarget = any> = InferProps<T> & {
 /** @internal */
 export interface RunAsyncState<T extends AnimationTarget = any> {
   paused: boolean
+  /** The value of the last `speed` prop */
+  speed?: number
   pauseQueue: Set<() => void>
   resumeQueue: Set<() => void>
   timeouts: Set<Timeout>
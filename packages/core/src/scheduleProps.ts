@@ -1,4 +1,10 @@
-import { Timeout, Globals as G, is } from '@react-spring/shared'
+import {
+  Timeout,
+  FrameLoop,
+  Globals as G,
+  is,
+  flushCalls,
+} from '@react-spring/shared'
 import { matchProp, callProp, getDefaultProp } from './helpers'
 import { AsyncResult, MatchProp } from './types'
 import { RunAsyncState, RunAsyncProps } from './runAsync'
@@ -10,7 +16,12 @@ import {
 } from './types/internal'
 
 // The `scheduleProps` function only handles these defaults.
-type DefaultProps<T> = { cancel?: MatchProp<T>; pause?: MatchProp<T> }
+type DefaultProps<T> = {
+  cancel?: MatchProp<T>
+  pause?: MatchProp<T>
+  speed?: number
+  frameLoop?: FrameLoop
+}
 
 interface ScheduledProps<T extends AnimationTarget> {
   key?: string
@@ -29,7 +40,7 @@ interface ScheduledProps<T extends AnimationTarget> {
  * the `cancel` prop is not `true`.
  *
  * The `actions.start` function must handle the `cancel` prop itself,
- * but the `pause` prop is taken care of.
+ * but the `pause` and `speed` props are taken care of.
  */
 export function scheduleProps<T extends AnimationTarget>(
   callId: number,
@@ -38,6 +49,10 @@ export function scheduleProps<T extends AnimationTarget>(
   return new Promise((resolve, reject) => {
     let delay: number
     let timeout: Timeout
+    /** The speed used when the timeout was set */
+    let speed: number
+    /** The frameloop used when the timeout was set */
+    let frameLoop: FrameLoop
 
     let cancel = mergeDefaultProp(defaultProps, props, 'cancel')
     cancel = matchProp(props.cancel ?? cancel, key)
@@ -56,6 +71,38 @@ export function scheduleProps<T extends AnimationTarget>(
         pause = state.paused || matchProp(pause, key)
       }
 
+      // The `speed` prop scales the delays of this call and any pending calls.
+      // The default `speed` scales them again, which lets `SpringContext`
+      // slow down a subtree.
+      const prevSpeed = getSpeed(state, defaultProps)
+      const prevLoop = getFrameLoop(defaultProps)
+      if (!is.und(props.speed)) {
+        state.speed = props.speed
+      }
+      if (defaultProps && is.obj(props.default)) {
+        const defaultSpeed = (props.default as DefaultProps<InferState<T>>)
+          .speed
+        if (!is.und(defaultSpeed)) {
+          defaultProps.speed = defaultSpeed
+        }
+      }
+      // The default `frameLoop` is used by this call's delay,
+      // and pending delays are moved onto it.
+      const defaultLoop = getDefaultProp(props, 'frameLoop')
+      if (defaultProps && defaultLoop) {
+        defaultProps.frameLoop = defaultLoop
+      }
+
+      // Reschedule any pending delays, unless they're paused.
+      if (
+        !pause &&
+        (getSpeed(state, defaultProps) !== prevSpeed ||
+          getFrameLoop(defaultProps) !== prevLoop)
+      ) {
+        flushCalls(state.pauseQueue)
+        flushCalls(state.resumeQueue)
+      }
+
       delay = callProp(props.delay || 0, key)
       if (pause) {
         state.resumeQueue.add(onResume)
@@ -71,12 +118,20 @@ export function scheduleProps<T extends AnimationTarget>(
       state.timeouts.delete(timeout)
       timeout.cancel()
       // Cache the remaining delay.
-      delay = timeout.time - G.now()
+      if (speed > 0) {
+        delay = (timeout.time - frameLoop.now()) * speed
+      }
     }
 
     function onResume() {
       if (delay > 0) {
-        timeout = G.frameLoop.setTimeout(onStart, delay)
+        // A speed of zero waits until the speed is changed.
+        speed = getSpeed(state, defaultProps)
+        frameLoop = getFrameLoop(defaultProps)
+        timeout = frameLoop.setTimeout(
+          onStart,
+          speed > 0 ? delay / speed : Infinity
+        )
         state.pauseQueue.add(onPause)
         state.timeouts.add(timeout)
       } else {
@@ -102,6 +157,18 @@ export function scheduleProps<T extends AnimationTarget>(
   })
 }
 
+function getFrameLoop(defaultProps?: DefaultProps<any>) {
+  return defaultProps?.frameLoop || G.frameLoop
+}
+
+/** Get the rate at which time passes for the given state. */
+export function getSpeed(
+  state: RunAsyncState<any>,
+  defaultProps: { speed?: number } | undefined
+) {
+  return G.speed * (state.speed ?? 1) * (defaultProps?.speed ?? 1)
+}
+
 /** Update and return the default prop. */
 function mergeDefaultProp<T>(
   defaultProps: DefaultProps<T> | undefined,
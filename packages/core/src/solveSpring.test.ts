@@ -0,0 +1,103 @@
+import { solveSpring, getSpringCrossing, SpringPhysics } from './solveSpring'
+
+const underDamped = { tension: 170, friction: 12, mass: 1 }
+const criticallyDamped = { tension: 100, friction: 20, mass: 1 }
+const overDamped = { tension: 120, friction: 60, mass: 2 }
+
+describe('solveSpring', () => {
+  describe.each([
+    ['under-damped', underDamped],
+    ['critically damped', criticallyDamped],
+    ['over-damped', overDamped],
+  ] as const)('when %s', (_, config) => {
+    it.each([
+      [1, 0.05],
+      [0.01, 0.001],
+    ])('matches the integrator it replaced (step: %pms)', (step, tolerance) => {
+      for (const [x0, v0] of [
+        [-1, 0],
+        [100, 0],
+        [-50, 0.5],
+        [0, -0.2],
+      ]) {
+        // The largest errors and values (for position and velocity)
+        const errors = [0, 0]
+        const peaks = [0, 0]
+
+        let expected = [x0, v0]
+        for (let t = 16; t < 2000; t += 16) {
+          const actual = solveSpring(config, x0, v0, t)
+          expected = integrate(config, expected[0], expected[1], 16, step)
+          for (let i = 0; i < 2; i++) {
+            errors[i] = Math.max(errors[i], Math.abs(actual[i] - expected[i]))
+            peaks[i] = Math.max(peaks[i], Math.abs(expected[i]))
+          }
+        }
+
+        expect(errors[0] / peaks[0]).toBeLessThan(tolerance)
+        expect(errors[1] / peaks[1]).toBeLessThan(tolerance)
+      }
+    })
+
+    it('is independent of frame length', () => {
+      let state: [number, number] = [-100, 0]
+      for (let i = 0; i < 20; i++) {
+        state = solveSpring(config, state[0], state[1], 16)
+      }
+      const [x, v] = solveSpring(config, -100, 0, 320)
+      expect(state[0]).toBeCloseTo(x, 9)
+      expect(state[1]).toBeCloseTo(v, 9)
+    })
+  })
+})
+
+describe('getSpringCrossing', () => {
+  it('finds when an under-damped spring crosses its goal', () => {
+    const t = getSpringCrossing(underDamped, -1, 0)
+    expect(solveSpring(underDamped, -1, 0, t)[0]).toBeCloseTo(0, 9)
+    expect(solveSpring(underDamped, -1, 0, t * 0.99)[0]).toBeLessThan(0)
+
+    // The next crossing is half a period later.
+    const [, v] = solveSpring(underDamped, -1, 0, t)
+    const t2 = getSpringCrossing(underDamped, 0, v)
+    expect(t2).toBeGreaterThan(0)
+    expect(solveSpring(underDamped, 0, v, t2)[0]).toBeCloseTo(0, 9)
+  })
+
+  it('finds when a fast critically damped spring crosses its goal', () => {
+    const t = getSpringCrossing(criticallyDamped, -1, 0.1)
+    expect(t).toBeLessThan(Infinity)
+    expect(solveSpring(criticallyDamped, -1, 0.1, t)[0]).toBeCloseTo(0, 9)
+  })
+
+  it('finds when a fast over-damped spring crosses its goal', () => {
+    const t = getSpringCrossing(overDamped, -1, 0.1)
+    expect(t).toBeLessThan(Infinity)
+    expect(solveSpring(overDamped, -1, 0.1, t)[0]).toBeCloseTo(0, 9)
+  })
+
+  it('returns Infinity when the goal is never crossed', () => {
+    expect(getSpringCrossing(criticallyDamped, -1, 0)).toBe(Infinity)
+    expect(getSpringCrossing(overDamped, -1, 0)).toBe(Infinity)
+    expect(getSpringCrossing(underDamped, 0, 0)).toBe(Infinity)
+  })
+})
+
+/** The fixed-step integrator that `solveSpring` replaced */
+function integrate(
+  config: SpringPhysics,
+  position: number,
+  velocity: number,
+  t: number,
+  step: number
+) {
+  const numSteps = Math.round(t / step)
+  for (let n = 0; n < numSteps; ++n) {
+    const springForce = -config.tension * 0.000001 * position
+    const dampingForce = -config.friction * 0.001 * velocity
+    const acceleration = (springForce + dampingForce) / config.mass
+    velocity = velocity + acceleration * step
+    position = position + velocity * step
+  }
+  return [position, velocity]
+}
@@ -0,0 +1,113 @@
+import { AnimationConfig } from './AnimationConfig'
+
+/** The config props that define the physics of a spring. */
+export type SpringPhysics = Pick<
+  AnimationConfig,
+  'tension' | 'friction' | 'mass'
+>
+
+/** Damping ratios this close to 1 are treated as critically damped. */
+const CRITICAL_EPSILON = 1e-6
+
+/**
+ * Compute the displacement and velocity of a damped spring after `t`
+ * milliseconds, given its displacement from the goal (`x0`) and its
+ * velocity (`v0`, in units per millisecond).
+ *
+ * This uses the analytical solution of `mass * x'' + friction * x' + tension * x = 0`,
+ * so the result is the same no matter how `t` is divided between frames.
+ */
+export function solveSpring(
+  config: SpringPhysics,
+  x0: number,
+  v0: number,
+  t: number
+): [number, number] {
+  const { w0, zeta } = getSpringRoots(config)
+
+  // Under-damped
+  if (zeta < 1 - CRITICAL_EPSILON) {
+    const alpha = zeta * w0
+    const wd = w0 * Math.sqrt(1 - zeta * zeta)
+    const b = (v0 + alpha * x0) / wd
+    const decay = Math.exp(-alpha * t)
+    const cos = Math.cos(wd * t)
+    const sin = Math.sin(wd * t)
+    return [
+      decay * (x0 * cos + b * sin),
+      decay * ((b * wd - alpha * x0) * cos - (x0 * wd + alpha * b) * sin),
+    ]
+  }
+
+  // Critically damped
+  if (zeta <= 1 + CRITICAL_EPSILON) {
+    const b = v0 + w0 * x0
+    const decay = Math.exp(-w0 * t)
+    return [decay * (x0 + b * t), decay * (v0 - w0 * b * t)]
+  }
+
+  // Over-damped
+  const { r1, r2, c1, c2 } = getOverdampedTerms(w0, zeta, x0, v0)
+  const e1 = Math.exp(r1 * t)
+  const e2 = Math.exp(r2 * t)
+  return [c1 * e1 + c2 * e2, c1 * r1 * e1 + c2 * r2 * e2]
+}
+
+/**
+ * Find how many milliseconds until a spring crosses its goal, given its
+ * displacement from the goal (`x0`) and its velocity (`v0`).
+ *
+ * Returns `Infinity` when the goal is never crossed.
+ */
+export function getSpringCrossing(
+  config: SpringPhysics,
+  x0: number,
+  v0: number
+) {
+  if (x0 == 0 && v0 == 0) {
+    return Infinity
+  }
+
+  const { w0, zeta } = getSpringRoots(config)
+  let t: number
+
+  // Under-damped springs cross their goal every half period.
+  if (zeta < 1 - CRITICAL_EPSILON) {
+    const alpha = zeta * w0
+    const wd = w0 * Math.sqrt(1 - zeta * zeta)
+    const phase = Math.atan2((v0 + alpha * x0) / wd, x0) + Math.PI / 2
+    t = (((phase % Math.PI) + Math.PI) % Math.PI || Math.PI) / wd
+  }
+
+  // Critically damped springs cross their goal once at most.
+  else if (zeta <= 1 + CRITICAL_EPSILON) {
+    t = -x0 / (v0 + w0 * x0)
+  }
+
+  // Over-damped springs cross their goal once at most.
+  else {
+    const { r1, r2, c1, c2 } = getOverdampedTerms(w0, zeta, x0, v0)
+    t = Math.log(-c2 / c1) / (r1 - r2)
+  }
+
+  return t > 0 ? t : Infinity
+}
+
+/** Get the natural frequency (per millisecond) and the damping ratio. */
+function getSpringRoots({ tension, friction, mass }: SpringPhysics) {
+  // Convert to millisecond units.
+  const k = tension * 0.000001
+  const c = friction * 0.001
+  return {
+    w0: Math.sqrt(k / mass),
+    zeta: c / (2 * Math.sqrt(k * mass)),
+  }
+}
+
+function getOverdampedTerms(w0: number, zeta: number, x0: number, v0: number) {
+  const s = w0 * Math.sqrt(zeta * zeta - 1)
+  const r1 = -zeta * w0 + s
+  const r2 = -zeta * w0 - s
+  const c1 = (v0 - r2 * x0) / (r1 - r2)
+  return { r1, r2, c1, c2: x0 - c1 }
+}
@@ -0,0 +1,323 @@
+import { is } from '@react-spring/shared'
+import { AnimationConfig } from './AnimationConfig'
+import { solveSpring, getSpringCrossing } from './solveSpring'
+
+/** The state of an animated number, as seen by a `Solver` */
+export interface SolverState {
+  /** The current value */
+  position: number
+  /** The current velocity (in units per millisecond) */
+  velocity: number
+  /** The initial velocity (in units per millisecond) */
+  v0: number
+  /** The milliseconds since the animation started, including this frame */
+  elapsedTime: number
+  /** The value where the animation started */
+  from: number
+  /** The goal value */
+  to: number
+  /** The milliseconds since the last frame */
+  dt: number
+}
+
+/** The state of an animated number after a frame */
+export interface SolverResult {
+  position: number
+  velocity: number
+  /** When true, the value is at rest. */
+  finished: boolean
+}
+
+/**
+ * Solvers decide how an animated number moves in each frame.
+ *
+ * Use the `solver` prop of the `config` object to provide your own.
+ */
+export type Solver = (
+  state: SolverState,
+  config: AnimationConfig
+) => SolverResult
+
+/** Move along an easing curve within a fixed duration. */
+export const durationSolver: Solver = (state, config) => {
+  const { position: lastPosition, v0, elapsedTime, from, to, dt } = state
+  const duration = config.duration!
+
+  let p = config.progress || 0
+  if (duration <= 0) p = 1
+  else p += (1 - p) * Math.min(1, elapsedTime / duration)
+
+  let position = from + config.easing(p) * (to - from)
+
+  // Add the difference between the initial velocity and the curve's
+  // initial velocity, which fades out along a cubic Hermite curve.
+  if (config.retarget == 'blend' && p < 1) {
+    const p0 = config.progress || 0
+    const t = elapsedTime / duration
+
+    // Approximate the slope of the easing curve.
+    const h = 1e-6
+    const curveVelocity =
+      (((config.easing(p0 + (1 - p0) * h) - config.easing(p0)) / h) *
+        (1 - p0) *
+        (to - from)) /
+      duration
+
+    position += (v0 - curveVelocity) * duration * t * Math.pow(1 - t, 2)
+  }
+
+  return {
+    position,
+    velocity: (position - lastPosition) / dt,
+    finished: p == 1,
+  }
+}
+
+/** Slow down exponentially, without a goal value. */
+export const decaySolver: Solver = (state, config) => {
+  const { v0, elapsedTime, from, dt } = state
+  const decay = config.decay === true ? 0.998 : (config.decay as number)
+
+  /** The bound this value is springing toward (if any) */
+  let bound: number | undefined
+  /** The time when the spring takes over */
+  let handoff = 0
+  /** The velocity when the spring takes over */
+  let handoffVelocity = v0
+
+  if (config.bounds) {
+    const { min = -Infinity, max = Infinity } = config.bounds
+    if (from < min || from > max) {
+      bound = from < min ? min : max
+    } else {
+      // Where the value would come to rest without bounds
+      const limit = from + v0 / (1 - decay)
+      if (limit < min || limit > max) {
+        bound = limit < min ? min : max
+        handoff =
+          -Math.log(1 - ((bound - from) * (1 - decay)) / v0) / (1 - decay)
+        handoffVelocity = v0 * Math.exp(-(1 - decay) * handoff)
+      }
+    }
+  }
+
+  if (!is.und(bound) && elapsedTime >= handoff) {
+    const [x, v] = solveSpring(
+      config,
+      handoff ? 0 : from - bound,
+      handoffVelocity,
+      elapsedTime - handoff
+    )
+
+    const precision = config.precision || 0.01
+    const restVelocity = config.restVelocity || precision / 10
+    const finished = Math.abs(v) <= restVelocity && Math.abs(x) <= precision
+
+    return {
+      position: finished ? bound : bound + x,
+      velocity: v,
+      finished,
+    }
+  }
+
+  const e = Math.exp(-(1 - decay) * elapsedTime)
+
+  // The distance travelled in this frame
+  const distance = (v0 / (1 - decay)) * (Math.exp((1 - decay) * dt) - 1) * e
+
+  return {
+    position: from + (v0 / (1 - decay)) * (1 - e),
+    // derivative of position
+    velocity: v0 * e,
+    finished: Math.abs(distance) < 0.1,
+  }
+}
+
+/** Move toward the goal value like a damped spring. */
+export const springSolver: Solver = (state, config) => {
+  const { v0, from, to, dt } = state
+  let { position, velocity } = state
+
+  /** The smallest distance from a value before being treated like said value. */
+  const precision =
+    config.precision ||
+    (from == to ? 0.005 : Math.min(1, Math.abs(to - from) * 0.001))
+
+  /** The velocity at which movement is essentially none */
+  const restVelocity = config.restVelocity || precision / 10
+
+  // Bouncing is opt-in (not to be confused with overshooting).
+  // The "bounce" prop means something else with "visualDuration".
+  const bounceFactor = config.clamp ? 0 : config.bounce!
+  const canBounce =
+    config.clamp || (!is.und(bounceFactor) && is.und(config.visualDuration))
+
+  /** When `true`, the value is increasing over time */
+  const isGrowing = from == to ? v0 > 0 : from < to
+
+  // Invert the velocity with a magnitude, or clamp it, when the
+  // goal value is equaled or exceeded before this frame.
+  if (
+    canBounce &&
+    (position == to
+      ? velocity != 0 && velocity > 0 == isGrowing
+      : position > to == isGrowing)
+  ) {
+    velocity = -velocity * bounceFactor
+    position = to
+  }
+
+  // The time left to simulate in this frame
+  let remaining = dt
+  while (remaining > 0) {
+    const crossing = canBounce
+      ? getSpringCrossing(config, position - to, velocity)
+      : Infinity
+
+    const step = Math.min(remaining, crossing)
+    remaining -= step
+
+    const [x, v] = solveSpring(config, position - to, velocity, step)
+    position = to + x
+    velocity = v
+
+    // Bounce off the goal value, or clamp to it.
+    if (step == crossing) {
+      velocity = -velocity * bounceFactor
+      position = to
+    }
+  }
+
+  return {
+    position,
+    velocity,
+    finished:
+      Math.abs(velocity) <= restVelocity &&
+      Math.abs(to - position) <= precision,
+  }
+}
+
+/**
+ * Solve the values of an array as one vector, so they share one distance
+ * to the goal, one speed, and one rest check.
+ *
+ * Springs bounce (or clamp) along the line from the goal to the start.
+ * Other solvers run on each value, which come to rest together.
+ */
+export function solveCoupled(
+  states: SolverState[],
+  config: AnimationConfig,
+  solver: Solver
+): SolverResult[] {
+  if (solver != springSolver) {
+    const results = states.map(state => solver(state, config))
+    const finished = results.every(result => result.finished)
+    return results.map(result => ({ ...result, finished }))
+  }
+
+  const dt = states.length ? states[0].dt : 0
+  const to = states.map(state => state.to)
+  const x = states.map(state => state.position - state.to)
+  const v = states.map(state => state.velocity)
+
+  /** The distance between the start and the goal */
+  const distance = getLength(states.map(state => state.from - state.to))
+
+  /** The smallest distance from a value before being treated like said value. */
+  const precision =
+    config.precision || (distance == 0 ? 0.005 : Math.min(1, distance * 0.001))
+
+  /** The velocity at which movement is essentially none */
+  const restVelocity = config.restVelocity || precision / 10
+
+  // Bouncing is opt-in (not to be confused with overshooting).
+  const bounceFactor = config.clamp ? 0 : config.bounce!
+  const canBounce =
+    config.clamp || (!is.und(bounceFactor) && is.und(config.visualDuration))
+
+  /**
+   * The unit vector pointing from the goal to the start, or against the
+   * initial velocity when the start is the goal.
+   */
+  const axis = normalize(
+    distance
+      ? states.map(state => state.from - state.to)
+      : states.map(state => -state.v0)
+  )
+
+  /** The displacement along the axis */
+  const project = (vector: number[]) =>
+    vector.reduce((sum, value, i) => sum + value * axis![i], 0)
+
+  /** Invert the velocity along the axis, and move onto the goal plane. */
+  const bounce = () => {
+    const s = project(x)
+    const sv = project(v)
+    for (let i = 0; i < x.length; i++) {
+      x[i] -= s * axis![i]
+      v[i] -= (1 + bounceFactor) * sv * axis![i]
+    }
+  }
+
+  const isBouncing = canBounce && !!axis
+
+  // Bounce when the goal is equaled or exceeded before this frame.
+  if (isBouncing) {
+    const s = project(x)
+    if (s == 0 ? project(v) < 0 : s < 0) {
+      bounce()
+    }
+  }
+
+  // The time left to simulate in this frame
+  let remaining = dt
+  while (remaining > 0) {
+    // The displacement along the axis moves like a spring too.
+    const crossing = isBouncing
+      ? getSpringCrossing(config, project(x), project(v))
+      : Infinity
+
+    const step = Math.min(remaining, crossing)
+    remaining -= step
+
+    for (let i = 0; i < x.length; i++) {
+      const [position, velocity] = solveSpring(config, x[i], v[i], step)
+      x[i] = position
+      v[i] = velocity
+    }
+
+    if (step == crossing) {
+      bounce()
+    }
+  }
+
+  const finished = getLength(v) <= restVelocity && getLength(x) <= precision
+
+  return states.map((_, i) => ({
+    position: to[i] + x[i],
+    velocity: v[i],
+    finished,
+  }))
+}
+
+function getLength(vector: number[]) {
+  return Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+}
+
+/** Get the unit vector of a non-zero vector. */
+function normalize(vector: number[]) {
+  const length = getLength(vector)
+  return length ? vector.map(value => value / length) : null
+}
+
+/** Get the solver used by the given config. */
+export function getSolver(config: AnimationConfig): Solver {
+  return (
+    config.solver ||
+    (!is.und(config.duration)
+      ? durationSolver
+      : config.decay && !config.snap
+      ? decaySolver
+      : springSolver)
+  )
+}
@@ -1,6 +1,7 @@
 import { Lookup, Falsy } from '@react-spring/types'
 
 import { Controller, ControllerQueue } from '../Controller'
+import { FrameValue } from '../FrameValue'
 import { SpringValue } from '../SpringValue'
 import { RunAsyncProps } from '../runAsync'
 import {
@@ -113,3 +114,38 @@ export type OnDelayEnd<T = unknown> = (
   props: RunAsyncProps<SpringValue<T>>,
   spring: SpringValue<T>
 ) => void
+
+/** The listeners of `FrameValue` events, by event name */
+export type FrameValueEvents<T = any> = {
+  change: (value: T, source: FrameValue<T, any>) => void
+}
+
+/**
+ * The listeners of `SpringValue` events, by event name.
+ * These are called after the matching props (like `onStart`).
+ */
+export type SpringEvents<T = any> = {
+  start: OnStart<T>
+  change: OnChange<T>
+  rest: OnRest<SpringValue<T>>
+  pause: OnPause<T>
+  resume: OnResume<T>
+  delayEnd: OnDelayEnd<T>
+  props: OnProps<T>
+}
+
+/**
+ * The listeners of `Controller` and `SpringRef` events, by event name.
+ *
+ * Like their props, the `start`, `change`, and `rest` events are
+ * batched once per frame. Other events come from each `SpringValue`.
+ */
+export type ControllerEvents<State extends Lookup = Lookup> = {
+  start: (ctrl: Controller<State>) => void
+  change: (values: State) => void
+  rest: OnRest<Controller<State>>
+  pause: OnPause
+  resume: OnResume
+  delayEnd: OnDelayEnd
+  props: OnProps
+}
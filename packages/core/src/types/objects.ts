@@ -1,11 +1,17 @@
 import type { FluidValue } from '@react-spring/shared'
-import type { Lookup, Any } from '@react-spring/types'
+import type { Lookup, Any, EasingProp, Merge } from '@react-spring/types'
 import type { AnimationConfig } from '../AnimationConfig'
 import type { SpringValue } from '../SpringValue'
 import type { Readable } from './internal'
 
 /** The object type of the `config` prop. */
-export type SpringConfig = Partial<AnimationConfig>
+export type SpringConfig = Merge<
+  Partial<AnimationConfig>,
+  {
+    /** The animation curve, or the name of an easing in the `easings` object. */
+    easing?: EasingProp
+  }
+>
 
 /** The object given to the `onRest` prop and `start` promise. */
 export interface AnimationResult<T extends Readable = any> {
@@ -17,6 +23,8 @@ export interface AnimationResult<T extends Readable = any> {
   finished?: boolean
   /** When true, the animation was cancelled before it could finish. */
   cancelled?: boolean
+  /** When true, the animation was played backwards by a `reverse` call. */
+  reversed?: boolean
 }
 
 /** The promised result of an animation. */
@@ -40,3 +48,58 @@ type SpringWrap<T> = [
 ] extends [object | void, never]
   ? never // Object literals cannot be animated.
   : SpringValue<Exclude<T, FluidValue | void>> | Extract<T, void>
+
+/**
+ * The state of a `SpringValue` object, from its `snapshot` method.
+ * It's JSON-safe unless the config has custom functions.
+ */
+export interface SpringSnapshot<T = any> {
+  /** The current value */
+  value: T
+  /** The value being animated to */
+  goal: T
+  /** The value where the current animation started */
+  from: T
+  /** The current velocity, which is an array for array values */
+  velocity: number | number[]
+  /** The numeric values that the current animation started from */
+  fromValues: readonly number[]
+  /** The velocities that the current animation started with */
+  fromVelocities: readonly (number | null)[]
+  /**
+   * The config of the current animation. Named easings are saved as
+   * their names, and other functions are kept as-is.
+   */
+  config: SpringConfig
+  /** The milliseconds of the current animation that have passed */
+  elapsedTime: number
+  /** When true, the animation is frozen in time */
+  paused: boolean
+  /** When true, no animation is active */
+  idle: boolean
+}
+
+/** The state of a `Controller` object, from its `snapshot` method. */
+export type ControllerSnapshot<State extends Lookup = Lookup> = {
+  [P in keyof State]: SpringSnapshot<State[P]>
+}
+
+/** The subset of `AbortSignal` used by the `frames` method. */
+export interface AbortSignalLike {
+  readonly aborted: boolean
+  addEventListener(type: 'abort', listener: () => void): void
+  removeEventListener(type: 'abort', listener: () => void): void
+}
+
+/** The options of the `frames` method of `SpringValue` and `Controller` */
+export interface FramesOptions {
+  /** End the iteration early when this signal is aborted. */
+  signal?: AbortSignalLike
+  /**
+   * What to do with values emitted while the consumer is busy.
+   *
+   * - `"latest"` only keeps the most recent value (the default)
+   * - `"buffer"` keeps every value in the order they were emitted
+   */
+  backpressure?: 'latest' | 'buffer'
+}
@@ -1,4 +1,9 @@
-import { FluidProps, FluidValue } from '@react-spring/shared'
+import {
+  FluidProps,
+  FluidValue,
+  FrameLoop,
+  ReducedMotion,
+} from '@react-spring/shared'
 import {
   Any,
   Constrain,
@@ -120,7 +125,23 @@ export type GoalValues<T extends Lookup> = FluidProps<T> extends infer Props
  * The `UnknownProps` type lets you pass in { a: 1 } if the `key`
  * property of `SpringValue` equals "a".
  */
-export type GoalValue<T> = T | FluidValue<T> | UnknownProps | null | undefined
+export type GoalValue<T> =
+  | T
+  | RelativeValue<T>
+  | FluidValue<T>
+  | UnknownProps
+  | null
+  | undefined
+
+/**
+ * A goal value relative to the current goal value, like `"+=100"`,
+ * `"-=45deg"`, `"*=2"` or `"/=2"`. Arrays can have relative elements.
+ */
+export type RelativeValue<T> = [T] extends [number | string]
+  ? string
+  : [T] extends [ReadonlyArray<number | string>]
+  ? string | ReadonlyArray<number | string>
+  : never
 
 /**
  * Where `to` is inferred from non-reserved props
@@ -239,6 +260,29 @@ export interface AnimationProps<T = any> {
    * or an array of keys.
    */
   pause?: MatchProp<T>
+  /**
+   * Scale the passage of time for all animations and delays.
+   * For example, `0.5` is half speed, and `0` waits like a pause
+   * without calling `onPause`.
+   *
+   * The default `speed` is multiplied with this one.
+   */
+  speed?: number
+  /**
+   * The frameloop that advances these animations and their delays.
+   * This is a default prop, which `SpringContext` can set for a subtree.
+   *
+   * Defaults to `Globals.frameLoop`
+   */
+  frameLoop?: FrameLoop
+  /**
+   * When to reduce motion, which makes most keys jump to their goal.
+   * See `Globals.reduceMotion` for which keys still animate.
+   * This is a default prop, which `SpringContext` can set for a subtree.
+   *
+   * Defaults to `Globals.reducedMotion`
+   */
+  reducedMotion?: ReducedMotion
   /**
    * Start the next animations at their values in the `from` prop.
    */
@@ -276,6 +320,9 @@ export interface ReservedProps extends ReservedEventProps {
   ref?: any
   loop?: any
   pause?: any
+  speed?: any
+  frameLoop?: any
+  reducedMotion?: any
   reset?: any
   cancel?: any
   reverse?: any
@@ -298,6 +345,7 @@ export interface ReservedProps extends ReservedEventProps {
   keys?: any
   callId?: any
   parentId?: any
+  reversed?: any
 }
 
 export interface ReservedEventProps {
@@ -32,7 +32,7 @@ beforeEach(() => {
 
 afterEach(() => {
   isRunning = false
-  Globals.frameLoop['_dispose']()
+  Globals.frameLoop.dispose()
 })
 
 // This observes every SpringValue animation when "advanceUntil" is used.
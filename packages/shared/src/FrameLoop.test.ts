@@ -0,0 +1,551 @@
+import {
+  FrameCollector,
+  FrameLoop,
+  FrameLoopOptions,
+  ManualFrameLoop,
+  OpaqueAnimation,
+} from './FrameLoop'
+import { each, noop } from './helpers'
+import * as G from './globals'
+
+declare const document: any
+declare const Event: any
+
+const createAnimation = (duration: number) => {
+  let elapsed = 0
+  const frames: number[] = []
+  const animation: OpaqueAnimation & { frames: number[] } = {
+    idle: false,
+    priority: 0,
+    frames,
+    advance(dt) {
+      frames.push(dt)
+      elapsed += dt
+      animation.idle = elapsed >= duration
+    },
+  }
+  return animation
+}
+
+describe('FrameLoop', () => {
+  let time: number
+  let loop: FrameLoop
+  let animation: ReturnType<typeof createAnimation>
+
+  const setup = (options?: FrameLoopOptions) => {
+    time = 1000
+    loop = new FrameLoop(noop, { now: () => time, ...options })
+    animation = createAnimation(10000)
+    loop.start(animation)
+  }
+
+  const step = (ms: number) => {
+    time += ms
+    loop.advance()
+  }
+
+  afterEach(() => {
+    loop.dispose()
+  })
+
+  describe('when a frame is longer than "maxDeltaTime"', () => {
+    it('clamps the frame by default', () => {
+      setup()
+      step(16)
+      step(1000)
+      expect(animation.frames).toEqual([16, 64])
+    })
+    it('can skip the frame', () => {
+      setup({ catchUp: 'skip' })
+      step(1000)
+      step(16)
+      expect(animation.frames).toEqual([16])
+    })
+    it('can simulate the frame in steps', () => {
+      setup({ catchUp: 'simulate', maxDeltaTime: 50 })
+      step(120)
+      expect(animation.frames).toEqual([50, 50, 20])
+    })
+    it('fires timeouts on time by default', () => {
+      setup()
+      const handler = jest.fn()
+      loop.setTimeout(handler, 100)
+
+      step(1000)
+      expect(handler).toBeCalled()
+      expect(loop.now()).toBe(time)
+    })
+    it('delays timeouts by the discarded time when "catchUp" is defined', () => {
+      setup({ catchUp: 'clamp' })
+      const handler = jest.fn()
+      loop.setTimeout(handler, 100)
+
+      step(1000)
+      expect(handler).not.toBeCalled()
+      expect(loop.now()).toBe(time - 936)
+
+      step(36)
+      expect(handler).toBeCalled()
+    })
+  })
+
+  describe('when the clock is external', () => {
+    it('stands still while the clock is paused', () => {
+      setup()
+      step(16)
+      step(0)
+      step(0)
+      expect(animation.frames).toEqual([16])
+    })
+    it('follows the rate of the clock', () => {
+      setup()
+      step(16)
+      step(32)
+      step(8)
+      expect(animation.frames).toEqual([16, 32, 8])
+    })
+    it('moves forward from the new time after a rewind', () => {
+      setup()
+      step(16)
+      step(-100)
+      expect(animation.frames).toEqual([16])
+      step(16)
+      expect(animation.frames).toEqual([16, 16])
+    })
+    it('calls "onRewind" when the clock goes back', () => {
+      const onRewind = jest.fn()
+      setup({ onRewind })
+      step(16)
+      step(-100)
+      expect(onRewind).toBeCalledWith(100, [animation])
+      step(16)
+      expect(animation.frames).toEqual([16, 16])
+    })
+  })
+
+  it('can change its speed', () => {
+    setup()
+    const handler = jest.fn()
+    loop.setTimeout(handler, 20)
+
+    loop.speed = 0.5
+    step(32)
+    expect(animation.frames).toEqual([16])
+    expect(handler).not.toBeCalled()
+
+    loop.speed = 2
+    step(4)
+    expect(animation.frames).toEqual([16, 8])
+    expect(handler).toBeCalled()
+  })
+
+  it('can be paused', () => {
+    setup()
+    const handler = jest.fn()
+    loop.setTimeout(handler, 10)
+
+    loop.paused = true
+    step(16)
+    expect(animation.frames).toEqual([])
+    expect(handler).not.toBeCalled()
+
+    loop.paused = false
+    step(16)
+    expect(animation.frames).toEqual([16])
+    expect(handler).toBeCalled()
+  })
+
+  it('is the current frameloop while processing a frame', () => {
+    setup()
+    let current: FrameLoop | null = null
+    loop.onFrame(() => {
+      current = FrameLoop.current
+    })
+    step(16)
+    expect(current).toBe(loop)
+    expect(FrameLoop.current).toBeNull()
+  })
+
+  it('can stop an animation while processing a frame', () => {
+    setup()
+    const first = createAnimation(10000)
+    const second = createAnimation(10000)
+    const third = createAnimation(10000)
+    each([first, second, third], loop.start)
+
+    // The first animation stops itself and the one after it.
+    const { advance } = first
+    first.advance = dt => {
+      advance(dt)
+      loop.stop(first)
+      loop.stop(second)
+    }
+
+    step(16)
+    expect(first.frames).toEqual([16])
+    expect(second.frames).toEqual([])
+    expect(third.frames).toEqual([16])
+
+    step(16)
+    expect(animation.frames).toEqual([16, 16])
+    expect(first.frames).toEqual([16])
+    expect(third.frames).toEqual([16, 16])
+  })
+
+  describe('when "frameBudget" is set', () => {
+    const defaultNow = G.now
+    let workTime: number
+    beforeEach(() => {
+      workTime = 0
+      G.assign({ now: () => workTime })
+    })
+    afterEach(() => {
+      G.assign({ now: defaultNow })
+    })
+
+    const createWork = (priority: number, cost: number) => {
+      const animation = createAnimation(10000)
+      const { advance } = animation
+      animation.priority = priority
+      animation.advance = dt => {
+        workTime += cost
+        advance(dt)
+      }
+      return animation
+    }
+
+    const setupBudget = (options: FrameLoopOptions) => {
+      time = 1000
+      loop = new FrameLoop(noop, { now: () => time, ...options })
+    }
+
+    it('defers the end of the priority order once spent', () => {
+      setupBudget({ frameBudget: 8 })
+      const animations = [0, 1, 2].map(priority => createWork(priority, 5))
+      animations.forEach(loop.start)
+
+      // The first frame measures how long each animation takes.
+      step(16)
+      expect(loop.stats).toMatchObject({ deferred: 0, workTime: 15 })
+
+      step(16)
+      expect(animations.map(a => a.frames)).toEqual([[16, 16], [16], [16]])
+      expect(loop.stats).toMatchObject({ deferred: 2, workTime: 5 })
+    })
+
+    it('advances deferred animations by the time they missed', () => {
+      setupBudget({ frameBudget: 8 })
+      const first = createWork(0, 5)
+      const second = createWork(1, 5)
+      loop.start(first)
+      loop.start(second)
+
+      step(16)
+      step(16)
+      expect(second.frames).toEqual([16])
+
+      first.idle = true
+      step(16)
+      expect(second.frames).toEqual([16, 32])
+      expect(loop.stats.deferred).toBe(0)
+    })
+
+    it('never defers an animation for too long', () => {
+      setupBudget({ frameBudget: 8, maxDeferredFrames: 2 })
+      const first = createWork(0, 5)
+      const second = createWork(1, 5)
+      loop.start(first)
+      loop.start(second)
+
+      step(16)
+      step(16)
+      step(16)
+      expect(second.frames).toEqual([16])
+
+      step(16)
+      expect(second.frames).toEqual([16, 48])
+      expect(first.frames).toEqual([16, 16, 16, 16])
+      expect(loop.stats).toMatchObject({ totalDeferred: 2, totalForced: 1 })
+    })
+
+    it('counts the frames an animation was deferred, not its steps', () => {
+      setupBudget({
+        frameBudget: 6,
+        maxDeferredFrames: 2,
+        maxDeltaTime: 4,
+        catchUp: 'simulate',
+      })
+      const first = createWork(0, 1)
+      const second = createWork(1, 1)
+      loop.start(first)
+      loop.start(second)
+
+      step(16)
+      step(16)
+      expect(second.frames).toEqual([4, 4, 4, 4])
+      expect(loop.stats).toMatchObject({ deferred: 1, totalForced: 0 })
+
+      step(16)
+      expect(second.frames).toEqual([4, 4, 4, 4])
+      expect(loop.stats).toMatchObject({ totalDeferred: 2, totalForced: 0 })
+    })
+
+    it('never advances an animation from a deferred one it depends on', () => {
+      setupBudget({ frameBudget: 8, maxDeferredFrames: 1 })
+      const parent = createWork(0, 5)
+      const child = createWork(1, 5)
+
+      // The child is driven by the elapsed time of its parent.
+      const seen: number[] = []
+      const { advance } = child
+      child.advance = dt => {
+        seen.push(parent.frames.reduce((sum, dt) => sum + dt, 0))
+        advance(dt)
+      }
+      loop.start(parent)
+      loop.start(child)
+
+      for (let i = 0; i < 4; i++) {
+        step(16)
+      }
+      // The parent is up to date whenever the child advances.
+      expect(seen).toEqual([16, 48])
+      expect(child.frames).toEqual([16, 32])
+      expect(parent.frames).toEqual([16, 16, 16, 16])
+      expect(loop.stats).toMatchObject({ totalDeferred: 2, totalForced: 1 })
+    })
+  })
+
+  describe('when "pauseWhenHidden" is true', () => {
+    let hidden = false
+    beforeAll(() => {
+      Object.defineProperty(document, 'hidden', {
+        configurable: true,
+        get: () => hidden,
+      })
+    })
+    afterAll(() => {
+      delete document.hidden
+    })
+
+    const setHidden = (value: boolean) => {
+      hidden = value
+      document.dispatchEvent(new Event('visibilitychange'))
+    }
+
+    it('stops the clock while hidden', () => {
+      setup({ pauseWhenHidden: true })
+      const handler = jest.fn()
+      loop.setTimeout(handler, 20)
+
+      step(16)
+      setHidden(true)
+      step(16)
+      time += 5000
+      setHidden(false)
+      step(16)
+
+      expect(animation.frames).toEqual([16, 16])
+      expect(handler).toBeCalled()
+      expect(loop.now()).toBe(1032)
+    })
+
+    it('removes its listener when disposed', () => {
+      const addListener = jest.spyOn(document, 'addEventListener')
+      const removeListener = jest.spyOn(document, 'removeEventListener')
+      setup({ pauseWhenHidden: true })
+
+      const [type, listener] = addListener.mock.calls[0]
+      expect(type).toBe('visibilitychange')
+
+      loop.dispose()
+      expect(removeListener).toBeCalledWith('visibilitychange', listener)
+
+      addListener.mockRestore()
+      removeListener.mockRestore()
+    })
+  })
+})
+
+describe('ManualFrameLoop', () => {
+  it('flushes callbacks when no time has passed', () => {
+    const loop = new ManualFrameLoop()
+    const animation = createAnimation(1000)
+    loop.start(animation)
+
+    const calls: string[] = []
+    loop.onFrame(() => {
+      calls.push('onFrame')
+      loop.onWrite(() => calls.push('onWrite'))
+    })
+
+    loop.step(0)
+    expect(calls).toEqual(['onFrame', 'onWrite'])
+    expect(animation.frames).toEqual([])
+  })
+
+  it('advances by the given time', () => {
+    const loop = new ManualFrameLoop()
+    const animation = createAnimation(1000)
+    loop.start(animation)
+
+    loop.step(10).step(100)
+    expect(animation.frames).toEqual([10, 100])
+    expect(loop.time).toBe(110)
+  })
+
+  it('runs until idle at a fixed frame rate', () => {
+    const loop = new ManualFrameLoop()
+    const animation = createAnimation(100)
+    loop.start(animation)
+
+    expect(loop.runUntilIdle({ fps: 50 })).toBe(5)
+    expect(animation.frames).toEqual([20, 20, 20, 20, 20])
+    expect(loop.isIdle()).toBeTruthy()
+  })
+
+  it('produces the same frames every time', () => {
+    const run = () => {
+      const loop = new ManualFrameLoop()
+      const animation = createAnimation(500)
+      loop.start(animation)
+      loop.runUntilIdle()
+      return animation.frames
+    }
+    expect(run()).toEqual(run())
+  })
+
+  it('uses its own clock for timeouts', () => {
+    const loop = new ManualFrameLoop()
+    const handler = jest.fn()
+    loop.setTimeout(handler, 100)
+
+    loop.step(50)
+    expect(handler).not.toBeCalled()
+
+    loop.step(50)
+    expect(handler).toBeCalled()
+  })
+
+  it('flushes its queues in a defined order', () => {
+    const loop = new ManualFrameLoop()
+    const calls: string[] = []
+
+    loop.start({
+      idle: false,
+      priority: 0,
+      advance() {
+        calls.push('advance')
+        this.idle = true
+      },
+    })
+    loop.setTimeout(() => calls.push('timeout'), 0)
+    loop.onFrame(() => {
+      calls.push('onFrame')
+      loop.onWrite(() => calls.push('onWrite'))
+    })
+
+    loop.step(10)
+    expect(calls).toEqual(['timeout', 'advance', 'onFrame', 'onWrite'])
+  })
+})
+
+describe('FrameLoop.observe', () => {
+  const defaultNow = G.now
+  let workTime: number
+  beforeEach(() => {
+    workTime = 0
+    G.assign({ now: () => workTime })
+  })
+  afterEach(() => {
+    G.assign({ now: defaultNow })
+  })
+
+  it('reports the cost of each phase', () => {
+    const loop = new ManualFrameLoop()
+    const observer = jest.fn()
+    loop.observe(observer)
+
+    loop.start({
+      id: 1,
+      key: 'x',
+      idle: false,
+      priority: 0,
+      advance() {
+        workTime += 3
+        loop.onFrame(() => {
+          workTime += 2
+          loop.onWrite(() => {
+            workTime += 1
+          })
+        })
+      },
+    })
+    loop.step(16)
+
+    expect(observer).toBeCalledWith({
+      time: 16,
+      dt: 16,
+      advanceTime: 3,
+      frameTime: 2,
+      writeTime: 1,
+      activeCount: 1,
+      advanced: [{ id: 1, key: 'x' }],
+      deferredCount: 0,
+      overBudget: false,
+    })
+  })
+
+  it('can stop observing', () => {
+    const loop = new ManualFrameLoop()
+    const observer = jest.fn()
+    const stop = loop.observe(observer)
+    loop.start(createAnimation(100))
+
+    loop.step(16)
+    stop()
+    loop.step(16)
+    expect(observer).toBeCalledTimes(1)
+  })
+
+  it('reports frames over budget', () => {
+    let time = 0
+    const loop = new FrameLoop(noop, { now: () => time, frameBudget: 2 })
+    const observer = jest.fn()
+    loop.observe(observer)
+
+    loop.start({
+      idle: false,
+      priority: 0,
+      advance() {
+        workTime += 5
+      },
+    })
+    time += 16
+    loop.advance()
+
+    expect(observer.mock.calls[0][0].overBudget).toBeTruthy()
+    loop.dispose()
+  })
+})
+
+describe('FrameCollector', () => {
+  it('keeps the most recent frames, oldest first', () => {
+    const loop = new ManualFrameLoop()
+    const collector = new FrameCollector(loop, 3)
+    loop.start(createAnimation(1000))
+
+    for (let i = 0; i < 5; i++) {
+      loop.step(10)
+    }
+    expect(collector.frames.map(frame => frame.time)).toEqual([30, 40, 50])
+
+    collector.clear()
+    loop.step(10)
+    expect(collector.frames.map(frame => frame.time)).toEqual([60])
+
+    collector.stop()
+    loop.step(10)
+    expect(collector.frames.length).toBe(1)
+  })
+})
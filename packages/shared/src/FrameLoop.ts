@@ -1,5 +1,5 @@
 import { FrameRequestCallback, RequestFrameFn } from '@react-spring/types'
-import { flushCalls } from './helpers'
+import { flushCalls, noop } from './helpers'
 import * as G from './globals'
 
 declare const console: any
@@ -7,6 +7,14 @@ declare const process:
   | { env: { [key: string]: string | undefined } }
   | undefined
 
+declare const document:
+  | {
+      hidden: boolean
+      addEventListener(type: string, listener: () => void): void
+      removeEventListener(type: string, listener: () => void): void
+    }
+  | undefined
+
 // The global `requestAnimationFrame` must be dereferenced to avoid "Illegal invocation" errors
 const requestAnimationFrame: RequestFrameFn = fn =>
   (void 0, G.requestAnimationFrame)(fn)
@@ -15,6 +23,10 @@ export interface OpaqueAnimation {
   idle: boolean
   priority: number
   advance(dt: number): void
+  /** Reported to frame observers */
+  readonly id?: number
+  /** Reported to frame observers */
+  readonly key?: string
 }
 
 export interface Timeout {
@@ -23,22 +35,159 @@ export interface Timeout {
   cancel: () => void
 }
 
+export interface FrameLoopOptions {
+  /**
+   * Get the current time (in milliseconds).
+   *
+   * This can be an external clock, like `() => video.currentTime * 1000`,
+   * which may pause, change its rate, or jump backwards.
+   *
+   * Defaults to `Globals.now`
+   */
+  now?: () => number
+  /**
+   * Called when the clock jumps backwards, with the milliseconds it went
+   * back by and the active animations. Without this, animations stay
+   * where they are and keep moving forward from the new time.
+   */
+  onRewind?: (ms: number, animations: readonly OpaqueAnimation[]) => void
+  /**
+   * The most time (in milliseconds) that one frame can advance its
+   * animations by. See the `catchUp` option for longer frames.
+   *
+   * Defaults to `64`
+   */
+  maxDeltaTime?: number
+  /**
+   * What to do with a frame longer than `maxDeltaTime`, like the first
+   * frame after a background tab becomes visible.
+   *
+   * - `clamp` advances by `maxDeltaTime` and discards the rest
+   * - `skip` discards the whole frame
+   * - `simulate` advances by the whole frame, in steps of `maxDeltaTime`
+   *
+   * Discarded time is never seen by animations, and timeouts skip it
+   * too once this option is defined.
+   *
+   * Defaults to `"clamp"`, but timeouts still see the clamped time.
+   */
+  catchUp?: 'clamp' | 'skip' | 'simulate'
+  /**
+   * When true, time stands still while `document.hidden` is true,
+   * so nothing jumps ahead once the page is visible again.
+   */
+  pauseWhenHidden?: boolean
+  /**
+   * The milliseconds that animations can spend advancing in one frame.
+   * When the last frame suggests it will be spent, the animations at the
+   * end of the priority order are deferred to the next frame, which
+   * advances them by the time missed. Those depend on the animations
+   * before them (eg: an interpolation on its spring), which are never
+   * deferred while their dependents advance.
+   *
+   * Work is measured with `Globals.now`. Disabled by default.
+   */
+  frameBudget?: number
+  /**
+   * The most frames in a row that `frameBudget` can defer an animation,
+   * before it's advanced over budget.
+   *
+   * Defaults to `3`
+   */
+  maxDeferredFrames?: number
+}
+
+/** What happened in one frame, as seen by a `FrameObserver` */
+export interface FrameStats {
+  /** The time of the frame */
+  time: number
+  /** The milliseconds that animations were advanced by */
+  dt: number
+  /** The milliseconds spent advancing animations */
+  advanceTime: number
+  /** The milliseconds spent flushing the `onFrame` queue */
+  frameTime: number
+  /** The milliseconds spent flushing the `onWrite` queue */
+  writeTime: number
+  /** The animations that were active when the frame began */
+  activeCount: number
+  /** The animations that were advanced */
+  advanced: { id?: number; key?: string }[]
+  /** The animations that were deferred by the `frameBudget` option */
+  deferredCount: number
+  /** True when advancing took longer than the `frameBudget` option */
+  overBudget: boolean
+}
+
+export type FrameObserver = (frame: FrameStats) => void
+
+export interface FrameLoopStats {
+  /** The animations deferred in the last frame */
+  deferred: number
+  /** The animations deferred since the frameloop was created */
+  totalDeferred: number
+  /** The animations advanced over budget, so they would not starve */
+  totalForced: number
+  /** The milliseconds spent advancing animations in the last frame */
+  workTime: number
+}
+
 /**
  * FrameLoop executes its animations in order of lowest priority first.
  * Animations are retained until idle.
+ *
+ * Each frame does the following (in order):
+ *  1. Start animations that were added during the last frame.
+ *  2. Call `setTimeout` handlers whose time has come.
+ *  3. Advance each animation.
+ *  4. Flush the `onFrame` queue.
+ *  5. Flush the `onWrite` queue.
  */
 export class FrameLoop {
+  /**
+   * The frameloop whose frame is being processed, if any.
+   */
+  static current: FrameLoop | null = null
+
+  /**
+   * Scale the passage of time for this frameloop, including its timeouts.
+   */
+  speed = 1
+
+  /**
+   * When true, time stands still for this frameloop.
+   */
+  paused = false
+
   /**
    * Start a new animation, or reorder an active animation in
    * the animations array in response to a priority change.
    */
   start: (animation: OpaqueAnimation) => void
 
+  /**
+   * Remove an animation from the frameloop, so another frameloop
+   * can advance it.
+   */
+  stop: (animation: OpaqueAnimation) => void
+
   /**
    * Advance the animations to the current time.
    */
   advance: () => void
 
+  /**
+   * Get the current time (in milliseconds) of this frameloop,
+   * which is used by its timeouts.
+   */
+  now: () => number
+
+  /**
+   * Returns true when no animations, timeouts, or `onFrame` callbacks
+   * are waiting for the next frame.
+   */
+  isIdle: () => boolean
+
   /**
    * Invoke the given `handler` on the soonest frame after the given
    * `ms` delay is completed. When the delay is `<= 0`, the handler is
@@ -58,17 +207,51 @@ export class FrameLoop {
    */
   onWrite: (cb: FrameRequestCallback) => void
 
+  /**
+   * Measurements of the `frameBudget` option, for tuning it.
+   */
+  readonly stats: FrameLoopStats
+
+  /**
+   * Call the given function after every frame that advances animations.
+   * Frames are only measured while observed.
+   *
+   * Returns a function that stops observing.
+   */
+  observe: (observer: FrameObserver) => () => void
+
+  /**
+   * Stop the frameloop for good, and remove its `visibilitychange`
+   * listener. Pending animations, timeouts, and callbacks are dropped.
+   */
+  dispose: () => void
+
   // Exposed for testing.
   protected _idle!: boolean
-  protected _dispose!: () => void
 
-  constructor(raf = requestAnimationFrame) {
+  constructor(
+    raf = requestAnimationFrame,
+    {
+      now = () => G.now(),
+      maxDeltaTime = 64,
+      catchUp,
+      pauseWhenHidden = false,
+      onRewind,
+      frameBudget = 0,
+      maxDeferredFrames = 3,
+    }: FrameLoopOptions = {}
+  ) {
     let idle = true
+    let started = false
     let writing = false
 
     // The most recent framestamp
     let lastTime = 0
 
+    // The time discarded by long frames, or while hidden or paused
+    // (which is negative when sped up)
+    let lostTime = 0
+
     // The animations being updated in the current frame, sorted by lowest
     // priority first. These two arrays are swapped at the end of each frame.
     let currentFrame: OpaqueAnimation[] = []
@@ -80,6 +263,9 @@ export class FrameLoop {
     // causing animations to potentially advance 2x faster than intended.
     let priority = 0
 
+    // The index of the currently advancing animation, or -1
+    let frameIndex = -1
+
     // Animations starting on the next frame
     const startQueue = new Set<OpaqueAnimation>()
 
@@ -91,6 +277,38 @@ export class FrameLoop {
     // Used to avoid layout thrashing in @react-spring/web, for example.
     const writeQueue = new Set<FrameRequestCallback>()
 
+    // The animations deferred by the frame budget, with the time
+    // they missed and how many frames in a row they were deferred.
+    const deferred = new Map<
+      OpaqueAnimation,
+      { time: number; frames: number }
+    >()
+
+    // The animations deferred in the current frame
+    const deferring = new Set<OpaqueAnimation>()
+
+    // When the current frame began advancing animations
+    let workStart = 0
+
+    // The animations advanced in the current frame, counting each step
+    let advanceCount = 0
+
+    // The average milliseconds that one step of one animation took,
+    // as measured in the last frame that advanced any
+    let stepCost = 0
+
+    const observers = new Set<FrameObserver>()
+
+    // The animations advanced in the current frame, while observed
+    let advanced: FrameStats['advanced'] | null = null
+
+    const stats: FrameLoopStats = (this.stats = {
+      deferred: 0,
+      totalDeferred: 0,
+      totalForced: 0,
+      workTime: 0,
+    })
+
     // Add an animation to the frameloop
     const start = (animation: OpaqueAnimation) =>
       currentFrame.indexOf(animation) < 0 &&
@@ -119,8 +337,9 @@ export class FrameLoop {
         idle = false
 
         // To minimize frame skips, the frameloop never stops.
-        if (lastTime == 0) {
-          lastTime = G.now()
+        if (!started) {
+          started = true
+          lastTime = now()
           raf(loop)
         }
       }
@@ -129,7 +348,7 @@ export class FrameLoop {
     const timeoutQueue: Timeout[] = []
 
     this.setTimeout = (handler, ms) => {
-      const time = G.now() + ms
+      const time = this.now() + ms
       const cancel = () => {
         const index = timeoutQueue.findIndex(t => t.cancel == cancel)
         if (index >= 0) {
@@ -145,9 +364,104 @@ export class FrameLoop {
       return timeout
     }
 
+    // Advance each animation by the given milliseconds.
+    const advanceAnimations = (dt: number) => {
+      const nextFrame = prevFrame
+      for (frameIndex = 0; frameIndex < currentFrame.length; frameIndex++) {
+        const animation = currentFrame[frameIndex]
+        priority = animation.priority
+
+        // Animations may go idle before the next frame.
+        if (animation.idle) {
+          deferred.delete(animation)
+          continue
+        }
+
+        const debt = deferred.get(animation)
+        if (debt && deferring.has(animation)) {
+          debt.time += dt
+          nextFrame.push(animation)
+          continue
+        }
+
+        let ms = dt
+        if (debt) {
+          deferred.delete(animation)
+          ms += debt.time
+        }
+
+        G.willAdvance(animation)
+        animation.advance(ms)
+        advanceCount++
+        if (advanced) {
+          advanced.push({ id: animation.id, key: animation.key })
+        }
+        // Animations may be stopped while advancing.
+        if (!animation.idle && currentFrame[frameIndex] === animation) {
+          nextFrame.push(animation)
+        }
+      }
+      frameIndex = -1
+      priority = 0
+      // Reuse the `currentFrame` array to avoid garbage collection.
+      prevFrame = currentFrame
+      prevFrame.length = 0
+      // Set `currentFrame` for next frame, so the `start` function
+      // adds new animations to the proper array.
+      currentFrame = nextFrame
+    }
+
+    // Choose the animations to defer in a frame of the given steps, which
+    // are those at the end of the priority order that the budget has no
+    // room for.
+    const deferAnimations = (steps: number) => {
+      deferring.clear()
+      if (!stepCost) return
+
+      const active = currentFrame.filter(animation => !animation.idle)
+      let count = active.length - Math.floor(frameBudget / (stepCost * steps))
+
+      // Animations with a lower priority than a forced animation
+      // may be what it depends on, so they can't be deferred.
+      let forcedPriority = -Infinity
+
+      for (let i = active.length - 1; count > 0 && i >= 0; i--) {
+        const animation = active[i]
+        if (animation.priority < forcedPriority) break
+
+        // Animations deferred too often are advanced over budget.
+        const debt = deferred.get(animation)
+        if (debt && debt.frames >= maxDeferredFrames) {
+          forcedPriority = animation.priority
+          stats.totalForced++
+          continue
+        }
+
+        if (debt) {
+          debt.frames++
+        } else {
+          deferred.set(animation, { time: 0, frames: 1 })
+        }
+        deferring.add(animation)
+        stats.deferred++
+        stats.totalDeferred++
+        count--
+      }
+    }
+
     // Process the current frame.
     const advance = (this.advance = () => {
-      const time = G.now()
+      const prevLoop = FrameLoop.current
+      FrameLoop.current = this
+      try {
+        processFrame()
+      } finally {
+        FrameLoop.current = prevLoop
+      }
+    })
+
+    const processFrame = () => {
+      const time = now()
 
       // Start animations that were added during last frame.
       if (startQueue.size) {
@@ -155,54 +469,109 @@ export class FrameLoop {
         startQueue.clear()
       }
 
+      // The milliseconds to advance by
+      let dt = 0
+
+      const isNewFrame = time > lastTime
+      if (isNewFrame) {
+        // http://gafferongames.com/game-physics/fix-your-timestep/
+        const elapsed = time - lastTime
+        lastTime = time
+
+        // The elapsed time of this frameloop
+        const scaled = elapsed * this.speed
+
+        const stopped =
+          this.paused ||
+          (pauseWhenHidden &&
+            typeof document !== 'undefined' &&
+            document.hidden)
+
+        dt = stopped
+          ? 0
+          : scaled <= maxDeltaTime || catchUp == 'simulate'
+          ? scaled
+          : catchUp == 'skip'
+          ? 0
+          : maxDeltaTime
+
+        // Without a `catchUp` option, long frames are clamped for
+        // animations only, so timeouts fire as they always have.
+        lostTime += elapsed - (stopped || catchUp ? dt : scaled)
+      }
+      // The clock went backwards (eg: a video was seeked).
+      else if (time < lastTime) {
+        const ms = lastTime - time
+        lastTime = time
+        if (onRewind) {
+          G.batchedUpdates(() => onRewind(ms, currentFrame.slice()))
+        }
+      }
+
       // Flush the timeout queue.
       if (timeoutQueue.length) {
         G.batchedUpdates(() => {
-          const count = findIndex(timeoutQueue, t => t.time > time)
+          const count = findIndex(timeoutQueue, t => t.time > time - lostTime)
           timeoutQueue.splice(0, count).forEach(t => t.handler())
         })
       }
 
-      if (time > lastTime) {
-        // http://gafferongames.com/game-physics/fix-your-timestep/
-        const dt = Math.min(64, time - lastTime)
-        lastTime = time
+      const frameDt = dt
+      const activeCount = currentFrame.length
+      const observed = isNewFrame && observers.size > 0
+      let writeStart = 0
 
-        G.batchedUpdates(() => {
-          if (currentFrame.length) {
-            const nextFrame = prevFrame
-            for (let i = 0; i < currentFrame.length; i++) {
-              const animation = currentFrame[i]
-              priority = animation.priority
-
-              // Animations may go idle before the next frame.
-              if (!animation.idle) {
-                G.willAdvance(animation)
-                animation.advance(dt)
-                if (!animation.idle) {
-                  nextFrame.push(animation)
-                }
-              }
-            }
-            priority = 0
-            // Reuse the `currentFrame` array to avoid garbage collection.
-            prevFrame = currentFrame
-            prevFrame.length = 0
-            // Set `currentFrame` for next frame, so the `start` function
-            // adds new animations to the proper array.
-            currentFrame = nextFrame
-          }
-
-          flushCalls(frameQueue, time)
-
-          if (writeQueue.size) {
-            writing = true
-            flushCalls(writeQueue, time)
-            writing = false
-          }
-        })
+      advanced = observed ? [] : null
+      stats.deferred = 0
+      advanceCount = 0
+      workStart = G.now()
+
+      if (frameBudget > 0 && dt > 0) {
+        deferAnimations(Math.ceil(dt / maxDeltaTime))
       }
-    })
+
+      // Callbacks are flushed even when time stands still, so updates
+      // (like a `set` call while a clock is paused) are still written.
+      G.batchedUpdates(() => {
+        // Long frames are simulated in steps of `maxDeltaTime` or less.
+        while (dt > 0 && currentFrame.length) {
+          const step = Math.min(dt, maxDeltaTime)
+          dt -= step
+          advanceAnimations(step)
+        }
+        stats.workTime = G.now() - workStart
+        if (advanceCount) {
+          stepCost = stats.workTime / advanceCount
+        }
+
+        flushCalls(frameQueue, time)
+
+        if (observed) {
+          writeStart = G.now()
+        }
+        if (writeQueue.size) {
+          writing = true
+          flushCalls(writeQueue, time)
+          writing = false
+        }
+      })
+
+      if (advanced) {
+        const frame: FrameStats = {
+          time,
+          dt: frameDt,
+          advanceTime: stats.workTime,
+          frameTime: writeStart - workStart - stats.workTime,
+          writeTime: G.now() - writeStart,
+          activeCount,
+          advanced,
+          deferredCount: stats.deferred,
+          overBudget: frameBudget > 0 && stats.workTime > frameBudget,
+        }
+        advanced = null
+        observers.forEach(observer => observer(frame))
+      }
+    }
 
     this.start = animation => {
       // An animation can be added while a frame is being processed,
@@ -215,6 +584,24 @@ export class FrameLoop {
       }
     }
 
+    this.stop = animation => {
+      startQueue.delete(animation)
+      deferred.delete(animation)
+      // Animations already advanced in this frame are in the next frame.
+      const next = prevFrame.indexOf(animation)
+      if (next >= 0) {
+        prevFrame.splice(next, 1)
+      }
+      const index = currentFrame.indexOf(animation)
+      if (index >= 0) {
+        currentFrame.splice(index, 1)
+        // Avoid skipping the animation after the one advancing.
+        if (index <= frameIndex) {
+          frameIndex--
+        }
+      }
+    }
+
     this.onFrame = cb => {
       frameQueue.add(cb)
       kickoff()
@@ -225,6 +612,48 @@ export class FrameLoop {
       else writeQueue.add(cb)
     }
 
+    this.now = () => now() - lostTime
+
+    this.observe = observer => {
+      observers.add(observer)
+      return () => {
+        observers.delete(observer)
+      }
+    }
+
+    // Time stands still while the page is hidden.
+    const onVisibilityChange = () => {
+      if (!document!.hidden && started) {
+        const time = now()
+        lostTime += Math.max(0, time - lastTime)
+        lastTime = time
+      }
+    }
+
+    if (pauseWhenHidden && typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', onVisibilityChange)
+    }
+
+    this.dispose = () => {
+      idle = true
+      startQueue.clear()
+      currentFrame.length = 0
+      timeoutQueue.length = 0
+      frameQueue.clear()
+      writeQueue.clear()
+      deferred.clear()
+      deferring.clear()
+      if (pauseWhenHidden && typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', onVisibilityChange)
+      }
+    }
+
+    this.isIdle = () =>
+      !startQueue.size &&
+      !currentFrame.length &&
+      !timeoutQueue.length &&
+      !frameQueue.size
+
     // Expose internals for testing.
     if (
       typeof process !== 'undefined' &&
@@ -233,20 +662,93 @@ export class FrameLoop {
       const isIdle = () =>
         !startQueue.size && !currentFrame.length && !timeoutQueue.length
 
-      const dispose = () => {
-        idle = true
-        startQueue.clear()
-        timeoutQueue.length = 0
-      }
-
       Object.defineProperties(this, {
         _idle: { get: isIdle },
-        _dispose: { get: () => dispose },
       })
     }
   }
 }
 
+/**
+ * A frameloop that only advances when told to, so the same steps always
+ * produce the same frames. Useful for visual tests and rendering videos.
+ *
+ * Its clock starts at zero, and frames are never shortened.
+ */
+export class ManualFrameLoop extends FrameLoop {
+  protected _clock: { time: number }
+
+  constructor() {
+    const clock = { time: 0 }
+    super(noop, { now: () => clock.time, maxDeltaTime: Infinity })
+    this._clock = clock
+  }
+
+  /** The current time (in milliseconds) */
+  get time() {
+    return this._clock.time
+  }
+
+  /** Move the clock forward by `ms` and process one frame. */
+  step(ms: number) {
+    this._clock.time += ms
+    this.advance()
+    return this
+  }
+
+  /**
+   * Process frames of equal length until the frameloop is idle.
+   * Returns the number of frames processed.
+   */
+  runUntilIdle({ fps = 60, maxFrames = 1e4 } = {}) {
+    const ms = 1000 / fps
+    let frames = 0
+    while (!this.isIdle()) {
+      if (++frames > maxFrames) {
+        throw Error(`The frameloop is still busy after ${maxFrames} frames`)
+      }
+      this.step(ms)
+    }
+    return frames
+  }
+}
+
+/**
+ * Keep the most recent frames of a frameloop in a ring buffer,
+ * for building overlays or asserting on performance in tests.
+ */
+export class FrameCollector {
+  protected _frames: FrameStats[] = []
+  protected _index = 0
+  protected _stop: () => void
+
+  constructor(loop: FrameLoop = G.frameLoop, readonly size = 120) {
+    this._stop = loop.observe(frame => {
+      this._frames[this._index] = frame
+      this._index = (this._index + 1) % size
+    })
+  }
+
+  /** The collected frames, oldest first */
+  get frames() {
+    const frames = this._frames
+    return frames.length < this.size
+      ? frames.slice()
+      : frames.slice(this._index).concat(frames.slice(0, this._index))
+  }
+
+  /** Forget the collected frames. */
+  clear() {
+    this._frames = []
+    this._index = 0
+  }
+
+  /** Stop collecting frames. */
+  stop() {
+    this._stop()
+  }
+}
+
 /** Like `Array.prototype.findIndex` but returns `arr.length` instead of `-1` */
 function findIndex<T>(arr: T[], test: (value: T) => boolean) {
   const index = arr.findIndex(test)
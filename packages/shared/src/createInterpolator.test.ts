@@ -31,6 +31,18 @@ describe('Interpolation', () => {
     expect(interpolation(10.5)).toBe('scale(10.5)')
   })
 
+  it('should work with a named easing', () => {
+    const interpolation = createInterpolator({
+      range: [0, 1],
+      output: [0, 100],
+      easing: 'easeInQuad',
+    })
+
+    expect(interpolation(0)).toBe(0)
+    expect(interpolation(0.5)).toBe(25)
+    expect(interpolation(1)).toBe(100)
+  })
+
   it('should work with range arrays as arguments', () => {
     const interpolation = createInterpolator([0, 1], [100, 200])
 
@@ -1,5 +1,6 @@
 import * as G from './globals'
 import { is } from './helpers'
+import { easings, getEasing } from './easings'
 import {
   Animatable,
   InterpolatorFn,
@@ -38,7 +39,7 @@ export const createInterpolator: InterpolatorFactory = (
     config.extrapolateLeft || config.extrapolate || 'extend'
   const extrapolateRight =
     config.extrapolateRight || config.extrapolate || 'extend'
-  const easing = config.easing || (t => t)
+  const easing = getEasing(config.easing || easings.linear)
 
   return (input: number) => {
     const range = findRange(input, inputRange)
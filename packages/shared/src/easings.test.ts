@@ -0,0 +1,138 @@
+import { easings, cubicBezier, steps, getEasing } from './easings'
+
+describe('easings', () => {
+  it.each(Object.keys(easings) as (keyof typeof easings)[])(
+    '%s starts at 0 and ends at 1',
+    name => {
+      const easing = easings[name]
+      expect(easing(0)).toBeCloseTo(0, 10)
+      expect(easing(1)).toBeCloseTo(1, 10)
+    }
+  )
+
+  it('has symmetric "inOut" variants', () => {
+    for (const name of ['Quad', 'Cubic', 'Quart', 'Sine', 'Bounce']) {
+      const easing = (easings as any)['easeInOut' + name]
+      expect(easing(0.5)).toBeCloseTo(0.5, 10)
+      expect(easing(0.25)).toBeCloseTo(1 - easing(0.75), 10)
+    }
+  })
+
+  it('has "out" variants that mirror the "in" variants', () => {
+    for (const name of ['Quad', 'Cubic', 'Quart', 'Sine', 'Back', 'Bounce']) {
+      const easeIn = (easings as any)['easeIn' + name]
+      const easeOut = (easings as any)['easeOut' + name]
+      expect(easeOut(0.3)).toBeCloseTo(1 - easeIn(0.7), 10)
+    }
+  })
+
+  it('overshoots with the "back" family', () => {
+    expect(easings.easeInBack(0.2)).toBeLessThan(0)
+    expect(easings.easeOutBack(0.8)).toBeGreaterThan(1)
+  })
+})
+
+describe('getEasing', () => {
+  it('returns the function of a named easing', () => {
+    expect(getEasing('easeOutBack')).toBe(easings.easeOutBack)
+  })
+
+  it('returns the given function', () => {
+    const easing = (t: number) => t
+    expect(getEasing(easing)).toBe(easing)
+  })
+
+  it('throws for an unknown name', () => {
+    expect(() => getEasing('easeInFoo' as any)).toThrow('Unknown easing')
+  })
+
+  it('throws for an inherited property', () => {
+    expect(() => getEasing('toString' as any)).toThrow('Unknown easing')
+  })
+})
+
+describe('cubicBezier', () => {
+  it('follows the curve of its control points', () => {
+    const [x1, y1, x2, y2] = [0.25, 0.1, 0.25, 1]
+    const ease = cubicBezier(x1, y1, x2, y2)
+    const bezier = (t: number, p1: number, p2: number) =>
+      3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t
+
+    expect(ease(0)).toBe(0)
+    expect(ease(1)).toBe(1)
+    for (let t = 0.05; t < 1; t += 0.05) {
+      expect(ease(bezier(t, x1, x2))).toBeCloseTo(bezier(t, y1, y2), 6)
+    }
+  })
+
+  it('matches the "easeInOutCubic" easing for its control points', () => {
+    const easing = cubicBezier(0.65, 0, 0.35, 1)
+    for (let x = 0; x <= 1; x += 0.1) {
+      expect(easing(x)).toBeCloseTo(easings.easeInOutCubic(x), 1)
+    }
+  })
+
+  it('returns a linear easing when the curve is a line', () => {
+    expect(cubicBezier(0.3, 0.3, 0.6, 0.6)).toBe(easings.linear)
+  })
+
+  it('extrapolates along the tangent of the endpoints', () => {
+    const easing = cubicBezier(0.5, 1, 0.5, 2)
+    expect(easing(-1)).toBe(-2)
+    expect(easing(2)).toBe(-1)
+  })
+
+  it('handles curves with flat slopes', () => {
+    const easing = cubicBezier(1, 0, 0, 1)
+    expect(easing(0.5)).toBeCloseTo(0.5, 5)
+    expect(easing(0.01)).toBeLessThan(0.01)
+  })
+
+  it('throws when an x value is out of range', () => {
+    expect(() => cubicBezier(-0.1, 0, 1, 1)).toThrow()
+    expect(() => cubicBezier(0, 0, 1.1, 1)).toThrow()
+  })
+})
+
+describe('steps', () => {
+  it('jumps at the end by default', () => {
+    const easing = steps(4)
+    expect([0, 0.2, 0.25, 0.6, 0.99, 1].map(easing)).toEqual([
+      0,
+      0,
+      0.25,
+      0.5,
+      0.75,
+      1,
+    ])
+  })
+
+  it('supports "jump-start"', () => {
+    const easing = steps(4, 'jump-start')
+    expect([0, 0.2, 0.25, 0.99, 1].map(easing)).toEqual([0.25, 0.25, 0.5, 1, 1])
+    expect(steps(4, 'start')(0)).toBe(0.25)
+  })
+
+  it('supports "jump-none"', () => {
+    const easing = steps(5, 'jump-none')
+    expect([0, 0.19, 0.2, 0.5, 0.8, 1].map(easing)).toEqual([
+      0,
+      0,
+      0.25,
+      0.5,
+      1,
+      1,
+    ])
+  })
+
+  it('supports "jump-both"', () => {
+    const easing = steps(4, 'jump-both')
+    expect([0, 0.25, 0.99, 1].map(easing)).toEqual([0.2, 0.4, 0.8, 1])
+  })
+
+  it('throws for an invalid number of steps', () => {
+    expect(() => steps(0)).toThrow()
+    expect(() => steps(1.5)).toThrow()
+    expect(() => steps(1, 'jump-none')).toThrow()
+  })
+})
@@ -0,0 +1,205 @@
+import { EasingFunction, EasingName, EasingProp } from '@react-spring/types'
+import { is } from './helpers'
+
+const c1 = 1.70158
+const c2 = c1 * 1.525
+const c3 = c1 + 1
+const c4 = (2 * Math.PI) / 3
+const c5 = (2 * Math.PI) / 4.5
+
+const bounceOut: EasingFunction = x => {
+  const n1 = 7.5625
+  const d1 = 2.75
+  if (x < 1 / d1) {
+    return n1 * x * x
+  } else if (x < 2 / d1) {
+    return n1 * (x -= 1.5 / d1) * x + 0.75
+  } else if (x < 2.5 / d1) {
+    return n1 * (x -= 2.25 / d1) * x + 0.9375
+  } else {
+    return n1 * (x -= 2.625 / d1) * x + 0.984375
+  }
+}
+
+/**
+ * The standard easing functions. Each family has an "in", "out", and "inOut" variant.
+ *
+ * @see https://easings.net
+ */
+export const easings: { readonly [P in EasingName]: EasingFunction } = {
+  linear: x => x,
+  easeInQuad: x => x * x,
+  easeOutQuad: x => 1 - (1 - x) * (1 - x),
+  easeInOutQuad: x => (x < 0.5 ? 2 * x * x : 1 - Math.pow(-2 * x + 2, 2) / 2),
+  easeInCubic: x => x * x * x,
+  easeOutCubic: x => 1 - Math.pow(1 - x, 3),
+  easeInOutCubic: x =>
+    x < 0.5 ? 4 * x * x * x : 1 - Math.pow(-2 * x + 2, 3) / 2,
+  easeInQuart: x => x * x * x * x,
+  easeOutQuart: x => 1 - Math.pow(1 - x, 4),
+  easeInOutQuart: x =>
+    x < 0.5 ? 8 * x * x * x * x : 1 - Math.pow(-2 * x + 2, 4) / 2,
+  easeInExpo: x => (x === 0 ? 0 : Math.pow(2, 10 * x - 10)),
+  easeOutExpo: x => (x === 1 ? 1 : 1 - Math.pow(2, -10 * x)),
+  easeInOutExpo: x =>
+    x === 0
+      ? 0
+      : x === 1
+      ? 1
+      : x < 0.5
+      ? Math.pow(2, 20 * x - 10) / 2
+      : (2 - Math.pow(2, -20 * x + 10)) / 2,
+  easeInSine: x => 1 - Math.cos((x * Math.PI) / 2),
+  easeOutSine: x => Math.sin((x * Math.PI) / 2),
+  easeInOutSine: x => -(Math.cos(Math.PI * x) - 1) / 2,
+  easeInBack: x => c3 * x * x * x - c1 * x * x,
+  easeOutBack: x => 1 + c3 * Math.pow(x - 1, 3) + c1 * Math.pow(x - 1, 2),
+  easeInOutBack: x =>
+    x < 0.5
+      ? (Math.pow(2 * x, 2) * ((c2 + 1) * 2 * x - c2)) / 2
+      : (Math.pow(2 * x - 2, 2) * ((c2 + 1) * (x * 2 - 2) + c2) + 2) / 2,
+  easeInElastic: x =>
+    x === 0
+      ? 0
+      : x === 1
+      ? 1
+      : -Math.pow(2, 10 * x - 10) * Math.sin((x * 10 - 10.75) * c4),
+  easeOutElastic: x =>
+    x === 0
+      ? 0
+      : x === 1
+      ? 1
+      : Math.pow(2, -10 * x) * Math.sin((x * 10 - 0.75) * c4) + 1,
+  easeInOutElastic: x =>
+    x === 0
+      ? 0
+      : x === 1
+      ? 1
+      : x < 0.5
+      ? -(Math.pow(2, 20 * x - 10) * Math.sin((20 * x - 11.125) * c5)) / 2
+      : (Math.pow(2, -20 * x + 10) * Math.sin((20 * x - 11.125) * c5)) / 2 + 1,
+  easeInBounce: x => 1 - bounceOut(1 - x),
+  easeOutBounce: bounceOut,
+  easeInOutBounce: x =>
+    x < 0.5 ? (1 - bounceOut(1 - 2 * x)) / 2 : (1 + bounceOut(2 * x - 1)) / 2,
+}
+
+/** Get the easing function of a named easing, or return the given function. */
+export function getEasing(easing: EasingProp): EasingFunction {
+  if (is.fun(easing)) {
+    return easing
+  }
+  // Avoid inherited properties, like "toString".
+  if (!Object.prototype.hasOwnProperty.call(easings, easing)) {
+    throw Error(`Unknown easing: "${easing}"`)
+  }
+  return easings[easing]
+}
+
+/**
+ * Create an easing function from the control points of a cubic Bézier curve,
+ * just like the `cubic-bezier()` function of CSS.
+ *
+ * The `x1` and `x2` values must be between 0 and 1.
+ */
+export function cubicBezier(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): EasingFunction {
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+    throw Error('The x values of a cubic Bézier curve must be between 0 and 1')
+  }
+  if (x1 == y1 && x2 == y2) {
+    return easings.linear
+  }
+
+  // The polynomial coefficients of each axis
+  const cx = 3 * x1
+  const bx = 3 * (x2 - x1) - cx
+  const ax = 1 - cx - bx
+  const cy = 3 * y1
+  const by = 3 * (y2 - y1) - cy
+  const ay = 1 - cy - by
+
+  const sampleX = (t: number) => ((ax * t + bx) * t + cx) * t
+  const sampleY = (t: number) => ((ay * t + by) * t + cy) * t
+  const slopeX = (t: number) => (3 * ax * t + 2 * bx) * t + cx
+
+  // Find the curve parameter whose x value equals the given progress.
+  const solveX = (x: number) => {
+    let t = x
+    // Newton's method converges quickly, unless the slope is too flat.
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(t) - x
+      if (Math.abs(error) < 1e-7) return t
+      const slope = slopeX(t)
+      if (Math.abs(slope) < 1e-6) break
+      t -= error / slope
+    }
+    // Fall back to bisection.
+    let lo = 0
+    let hi = 1
+    t = x
+    for (let i = 0; i < 50 && hi - lo > 1e-7; i++) {
+      if (sampleX(t) > x) hi = t
+      else lo = t
+      t = (lo + hi) / 2
+    }
+    return t
+  }
+
+  // Like CSS, progress outside the 0-1 range is extrapolated along the
+  // tangent of the nearest endpoint.
+  const startSlope = x1 > 0 ? y1 / x1 : y1 == 0 && x2 > 0 ? y2 / x2 : 0
+  const endSlope =
+    x2 < 1 ? (y2 - 1) / (x2 - 1) : y2 == 1 && x1 < 1 ? (y1 - 1) / (x1 - 1) : 0
+
+  return x =>
+    x <= 0
+      ? startSlope * x
+      : x >= 1
+      ? 1 + endSlope * (x - 1)
+      : sampleY(solveX(x))
+}
+
+/**
+ * The "jump term" of the `steps` function, as defined by CSS.
+ *
+ * The `start` and `end` terms are aliases of `jump-start` and `jump-end`.
+ */
+export type StepsJumpTerm =
+  | 'jump-start'
+  | 'jump-end'
+  | 'jump-none'
+  | 'jump-both'
+  | 'start'
+  | 'end'
+
+/**
+ * Create an easing function that jumps between `n` equal steps,
+ * just like the `steps()` function of CSS.
+ */
+export function steps(
+  n: number,
+  jumpTerm: StepsJumpTerm = 'jump-end'
+): EasingFunction {
+  const jumps =
+    jumpTerm == 'jump-both' ? n + 1 : jumpTerm == 'jump-none' ? n - 1 : n
+
+  if (!(n >= 1 && jumps >= 1) || n % 1) {
+    throw Error(`Invalid number of steps for "${jumpTerm}": ${n}`)
+  }
+
+  const jumpsAtStart =
+    jumpTerm == 'jump-start' || jumpTerm == 'start' || jumpTerm == 'jump-both'
+
+  return progress => {
+    let step = Math.floor(progress * n)
+    if (jumpsAtStart) step += 1
+    if (progress >= 0 && step < 0) step = 0
+    if (progress <= 1 && step > jumps) step = jumps
+    return step / jumps
+  }
+}
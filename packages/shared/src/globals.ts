@@ -5,6 +5,7 @@ import {
   InterpolatorArgs,
 } from '@react-spring/types'
 import type { FrameLoop, OpaqueAnimation } from './FrameLoop'
+import type { ReducedMotion } from './reducedMotion'
 import { noop } from './helpers'
 
 //
@@ -34,6 +35,13 @@ export let colors = null as { [key: string]: number } | null
 
 export let skipAnimation = false as boolean
 
+export let speed = 1
+
+export let reducedMotion = 'never' as ReducedMotion
+
+export let reduceMotion = (key: string | undefined): boolean | number =>
+  /opacity|color|fill|stroke/i.test(key || '') ? 150 : true
+
 declare const window: {
   requestAnimationFrame: (cb: (time: number) => void) => number
 }
@@ -52,7 +60,12 @@ export let willAdvance: (animation: OpaqueAnimation) => void = noop
 export interface AnimatedGlobals {
   /** Returns a new `Interpolation` object */
   to?: typeof to
-  /** Used to measure frame length. Read more [here](https://developer.mozilla.org/en-US/docs/Web/API/Performance/now) */
+  /**
+   * Used to measure frame length. Read more [here](https://developer.mozilla.org/en-US/docs/Web/API/Performance/now)
+   *
+   * For an external clock (eg: media time), provide a `frameLoop` with
+   * its own `now` option instead, so rewinds can be handled.
+   */
   now?: typeof now
   /** Provide a custom `FrameLoop` instance */
   frameLoop?: typeof frameLoop
@@ -60,6 +73,18 @@ export interface AnimatedGlobals {
   colors?: typeof colors
   /** Make all animations instant and skip the frameloop entirely */
   skipAnimation?: typeof skipAnimation
+  /** Scale the passage of time for all animations (eg: `0.5` is half speed) */
+  speed?: typeof speed
+  /** When animations should reduce their motion (eg: `"user"`) */
+  reducedMotion?: typeof reducedMotion
+  /**
+   * Decide how a key animates under reduced motion. Return `true` to
+   * jump to the goal, `false` to animate as usual, or a number of
+   * milliseconds to animate for.
+   *
+   * By default, opacity and color keys animate for 150ms.
+   */
+  reduceMotion?: typeof reduceMotion
   /** Provide custom logic for string interpolation */
   createStringInterpolator?: typeof createStringInterpolator
   /** Schedule a function to run on the next frame */
@@ -76,6 +101,9 @@ export const assign = (globals: AnimatedGlobals) => {
   if (globals.frameLoop) frameLoop = globals.frameLoop
   if (globals.colors !== undefined) colors = globals.colors
   if (globals.skipAnimation != null) skipAnimation = globals.skipAnimation
+  if (globals.speed != null) speed = globals.speed
+  if (globals.reducedMotion) reducedMotion = globals.reducedMotion
+  if (globals.reduceMotion) reduceMotion = globals.reduceMotion
   if (globals.createStringInterpolator)
     createStringInterpolator = globals.createStringInterpolator
   if (globals.requestAnimationFrame)
@@ -12,8 +12,10 @@ export * from './colors'
 export * from './colorToRgba'
 export * from './colorMatchers'
 export * from './createInterpolator'
+export * from './easings'
 export * from './stringInterpolation'
 export * from './deprecations'
+export * from './reducedMotion'
 export * from './helpers'
 
 export * from 'fluids'
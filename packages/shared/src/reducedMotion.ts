@@ -0,0 +1,60 @@
+import * as G from './globals'
+import { noop } from './helpers'
+
+declare const window:
+  | {
+      matchMedia?: (query: string) => MediaQuery
+    }
+  | undefined
+
+interface MediaQuery {
+  matches: boolean
+  addEventListener?: (type: 'change', listener: () => void) => void
+  removeEventListener?: (type: 'change', listener: () => void) => void
+  addListener?: (listener: () => void) => void
+  removeListener?: (listener: () => void) => void
+}
+
+/**
+ * When animations should reduce their motion.
+ *
+ * - `always` reduces motion for everyone
+ * - `never` ignores the user's preference
+ * - `user` follows the `prefers-reduced-motion` media query
+ */
+export type ReducedMotion = 'always' | 'never' | 'user'
+
+let mediaQuery: MediaQuery | undefined
+
+function getMediaQuery() {
+  if (!mediaQuery && typeof window !== 'undefined' && window.matchMedia) {
+    mediaQuery = window.matchMedia('(prefers-reduced-motion: reduce)')
+  }
+  return mediaQuery
+}
+
+/** Returns true when the user prefers reduced motion. */
+export const prefersReducedMotion = () => !!getMediaQuery()?.matches
+
+/**
+ * Call the given function whenever the user's preference changes.
+ *
+ * Returns a function that stops listening.
+ */
+export function onReducedMotionChange(listener: (reduce: boolean) => void) {
+  const query = getMediaQuery()
+  if (!query) {
+    return noop
+  }
+  const onChange = () => listener(query.matches)
+  if (query.addEventListener) {
+    query.addEventListener('change', onChange)
+    return () => query.removeEventListener!('change', onChange)
+  }
+  query.addListener!(onChange)
+  return () => query.removeListener!(onChange)
+}
+
+/** Returns true when the given setting reduces motion right now. */
+export const isReducedMotion = (setting: ReducedMotion = G.reducedMotion) =>
+  setting == 'always' || (setting == 'user' && prefersReducedMotion())
@@ -3,6 +3,37 @@ import { Animatable } from './animated'
 
 export type EasingFunction = (t: number) => number
 
+/** The names of the easing functions in the `easings` object */
+export type EasingName =
+  | 'linear'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInCubic'
+  | 'easeOutCubic'
+  | 'easeInOutCubic'
+  | 'easeInQuart'
+  | 'easeOutQuart'
+  | 'easeInOutQuart'
+  | 'easeInExpo'
+  | 'easeOutExpo'
+  | 'easeInOutExpo'
+  | 'easeInSine'
+  | 'easeOutSine'
+  | 'easeInOutSine'
+  | 'easeInBack'
+  | 'easeOutBack'
+  | 'easeInOutBack'
+  | 'easeInElastic'
+  | 'easeOutElastic'
+  | 'easeInOutElastic'
+  | 'easeInBounce'
+  | 'easeOutBounce'
+  | 'easeInOutBounce'
+
+/** An easing function, or the name of one in the `easings` object */
+export type EasingProp = EasingFunction | EasingName
+
 export type ExtrapolateType = 'identity' | 'clamp' | 'extend'
 
 export interface InterpolatorFactory {
@@ -88,6 +119,8 @@ export type InterpolatorConfig<Out = Animatable> = {
 
   /**
    * Custom easing to apply in interpolator.
+   *
+   * Named easings (eg: `"easeOutBack"`) are also supported.
    */
-  easing?: EasingFunction
+  easing?: EasingProp
 }
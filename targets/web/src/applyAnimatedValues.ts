@@ -1,4 +1,4 @@
-import { Globals as G } from '@react-spring/shared'
+import { FrameLoop, Globals as G } from '@react-spring/shared'
 import { Lookup } from '@react-spring/types'
 
 const isCustomPropRE = /^--/
@@ -45,7 +45,10 @@ export function applyAnimatedValues(instance: Instance, props: Lookup) {
         ))
   )
 
-  G.frameLoop.onWrite(() => {
+  // Animated props are applied in a frame of their values' frameloop,
+  // so the write happens at the end of that frame.
+  const frameLoop = FrameLoop.current || G.frameLoop
+  frameLoop.onWrite(() => {
     if (children !== void 0) {
       instance.textContent = children
     }